@@ -1,5 +1,16 @@
 import { defineConfig } from '@vscode/test-cli';
 
-export default defineConfig({
-	files: 'out/test/**/*.test.js',
-});
+export default defineConfig([
+	{
+		label: 'unitAndCommandTests',
+		files: 'out/test/*.test.js',
+		workspaceFolder: 'src/test/fixtures/workspace',
+		mocha: { timeout: 20000 },
+	},
+	{
+		label: 'multiRootTests',
+		files: 'out/test/multiRoot/*.test.js',
+		workspaceFolder: 'src/test/fixtures/multi-root/multi-root.code-workspace',
+		mocha: { timeout: 20000 },
+	},
+]);
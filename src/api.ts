@@ -0,0 +1,284 @@
+import * as vscode from 'vscode';
+import { ContentEntry, registerOutputFormat } from './outputFormats';
+import { registerTokenizer } from './tokenizer';
+import { CopyPayload, OutputTarget, renderPayload, writePayload, describeWriteResult, describeWriteTarget } from './clipboardWriter';
+import { SkipSummary, createSkipSummary, showMessageWithSkipReport, getWorkspaceRootForUri } from './fileUtils';
+import { getPromptFileContent, getPromptFolder } from './prompts';
+import { collectEntries } from './contextCollector';
+import { getBundleItemUri } from './bundles';
+
+/**
+ * What to collect and how to format it, for the API, the `vscode://pica-sol.llm-code-copier/copy` URI
+ * and command arguments.
+ */
+export interface BuildContextOptions {
+    /**
+     * Files and folders: URIs, absolute paths, or paths relative to the workspace (prefixed with the folder name in
+     * multi-root workspaces). Folders are read recursively, honoring the ignore rules.
+     */
+    uris?: (vscode.Uri | string)[];
+    /** Glob patterns matched in the workspace, e.g. "src/**\/*.ts", honoring the ignore rules. */
+    globs?: string[];
+    /** Output format id: "markdown", "xml", "json", "template" or a registered format. Defaults to 'llmCopier.outputFormat'. */
+    format?: string;
+    /** Text placed before the content, or true for prompt.txt. No prompt by default. */
+    prompt?: string | boolean;
+    /** Token budget; the largest files are dropped until the content fits. Defaults to 'llmCopier.maxTokens'; 0 disables it. */
+    maxTokens?: number;
+}
+
+/**
+ * Options of a copy requested through the API, the URI handler or command arguments.
+ */
+export interface CopyContextOptions extends BuildContextOptions {
+    /** Where the copy goes. Defaults to 'llmCopier.outputTarget', where "ask" falls back to the clipboard. */
+    target?: OutputTarget;
+    /** The file of the "file" target or the folder of the "chunks" target, as a URI or path. */
+    outputPath?: string;
+}
+
+/**
+ * Formatted context and what went into it.
+ */
+export interface BuildContextResult {
+    text: string;
+    tokenCount: number;
+    /** Paths of the included entries, as they appear in the text. */
+    files: string[];
+    /** Paths of the entries dropped to fit the token budget. */
+    droppedFiles: string[];
+    /** Paths of the entries refused by 'llmCopier.secretFileDenylist'. */
+    refusedFiles: string[];
+    /** Number of skipped files and folders per reason, e.g. { "binary file": 2 }. */
+    skipped: Record<string, number>;
+    /** What the secret redaction masked or refused, if anything. */
+    redactionWarning?: string;
+}
+
+/**
+ * Outcome of a copy requested through the API.
+ */
+export interface CopyContextResult {
+    tokenCount: number;
+    copiedCount: number;
+    droppedFiles: string[];
+    refusedFiles: string[];
+    skipped: Record<string, number>;
+    target: OutputTarget;
+    /** The written file, or the folder holding the chunk files. */
+    outputPath?: string;
+}
+
+/**
+ * The API returned by `activate`, for other extensions:
+ * `vscode.extensions.getExtension<LlmCopierApi>('pica-sol.llm-code-copier')?.activate()`.
+ */
+export interface LlmCopierApi {
+    /** Collects and formats context without writing it anywhere and without dialogs. */
+    buildContext(options: BuildContextOptions): Promise<BuildContextResult>;
+    /** Collects, formats and writes context to its output target without dialogs. */
+    copyContext(options: CopyContextOptions): Promise<CopyContextResult | undefined>;
+    /** Registers an output format, selectable by 'llmCopier.outputFormat' and the format option. */
+    registerOutputFormat: typeof registerOutputFormat;
+    /** Registers a tokenizer, selectable by 'llmCopier.tokenizer'. */
+    registerTokenizer: typeof registerTokenizer;
+}
+
+const OUTPUT_TARGETS: OutputTarget[] = ['clipboard', 'file', 'chunks', 'untitled'];
+
+/**
+ * Whether a command argument is an options object rather than an explorer URI.
+ */
+export function isCopyContextOptions(value: unknown): value is CopyContextOptions {
+    return !!value && typeof value === 'object' && !(value instanceof vscode.Uri) && !Array.isArray(value);
+}
+
+/**
+ * Resolves a URI string, an absolute path, or a path relative to the workspace.
+ */
+function resolveUri(value: vscode.Uri | string): vscode.Uri | undefined {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    if (/^[a-z][a-z0-9+.-]+:\/\//i.test(value)) {
+        return vscode.Uri.parse(value);
+    }
+    return getBundleItemUri({ type: 'file', path: value });
+}
+
+function describeSkipCounts(skipSummary: SkipSummary): Record<string, number> {
+    return Object.fromEntries(skipSummary.byReason);
+}
+
+/**
+ * Collects the entries and the prompt of the options.
+ */
+async function collectPayload(options: BuildContextOptions, skipSummary: SkipSummary): Promise<CopyPayload> {
+    const uris = (options.uris ?? []).map(resolveUri).filter((uri): uri is vscode.Uri => !!uri);
+    const entries = await collectEntries([...uris.map(uri => ({ uri })), ...(options.globs ?? []).map(glob => ({ glob }))], skipSummary);
+    const prompt = options.prompt === true
+        ? await getPromptFileContent(getPromptFolder(entries))
+        : typeof options.prompt === 'string' && options.prompt ? `${options.prompt}\n\n` : '';
+    return { prompt, entries, command: 'Copy Context' };
+}
+
+async function buildContext(options: BuildContextOptions): Promise<BuildContextResult> {
+    const skipSummary = createSkipSummary();
+    const payload = await collectPayload(options, skipSummary);
+    const rendered = await renderPayload(payload, options);
+    const paths = (entries: ContentEntry[]) => entries.map(entry => entry.path);
+    return {
+        text: rendered.text,
+        tokenCount: rendered.tokenCount,
+        files: paths(rendered.entries),
+        droppedFiles: paths(rendered.droppedEntries),
+        refusedFiles: paths(rendered.refusedEntries),
+        skipped: describeSkipCounts(skipSummary),
+        redactionWarning: rendered.redactionWarning,
+    };
+}
+
+/**
+ * Collects and writes a copy without dialogs.
+ * @param showMessage Shows the usual success message with the skip report, for commands and URIs.
+ * @returns The outcome, or undefined if there was nothing to copy or the write failed.
+ * @throws If the output target is unknown.
+ */
+async function copyContext(options: CopyContextOptions, showMessage = false): Promise<CopyContextResult | undefined> {
+    const skipSummary = createSkipSummary();
+    const payload = await collectPayload(options, skipSummary);
+    if (payload.entries.length === 0) {
+        if (showMessage) {
+            showMessageWithSkipReport('No readable, non-binary files matched to copy.', skipSummary);
+        }
+        return undefined;
+    }
+
+    if (options.target !== undefined && !OUTPUT_TARGETS.includes(options.target)) {
+        throw new Error(`Unknown output target "${options.target}". Use ${OUTPUT_TARGETS.join(', ')}.`);
+    }
+    const outputUri = options.outputPath ? resolveUri(options.outputPath) : undefined;
+    const writeResult = await writePayload(payload, options.target, { format: options.format, maxTokens: options.maxTokens, headless: true, outputUri });
+    if (!writeResult) {
+        return undefined;
+    }
+    const copiedCount = payload.entries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+    if (showMessage) {
+        showMessageWithSkipReport(`Copied ${copiedCount} file${copiedCount === 1 ? '' : 's'} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+    }
+    return {
+        tokenCount: writeResult.tokenCount,
+        copiedCount,
+        droppedFiles: writeResult.droppedEntries.map(entry => entry.path),
+        refusedFiles: writeResult.refusedEntries.map(entry => entry.path),
+        skipped: describeSkipCounts(skipSummary),
+        target: writeResult.target,
+        outputPath: writeResult.location?.fsPath,
+    };
+}
+
+/**
+ * Copies with the given options and shows the success message, for command arguments such as
+ * `{ "globs": ["src/**\/*.ts"], "format": "xml" }` in keybindings and tasks.
+ */
+export async function copyContextFromOptions(options: CopyContextOptions): Promise<void> {
+    try {
+        await copyContext(options, true);
+    } catch (error) {
+        console.error(`Failed to copy context: ${error}`);
+        vscode.window.showErrorMessage(`Failed to copy context: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Parses the query of a `vscode://pica-sol.llm-code-copier/copy` URI:
+ * `path` and `glob` (repeatable), `format`, `prompt` (text, or "true" for prompt.txt), `maxTokens`, `target` and `output`.
+ */
+function parseCopyQuery(query: string): CopyContextOptions {
+    const params = new URLSearchParams(query);
+    const maxTokens = params.get('maxTokens');
+    const prompt = params.get('prompt');
+    return {
+        uris: params.getAll('path'),
+        globs: params.getAll('glob'),
+        format: params.get('format') ?? undefined,
+        prompt: prompt === 'true' ? true : prompt ?? undefined,
+        maxTokens: maxTokens !== null && /^\d+$/.test(maxTokens) ? Number(maxTokens) : undefined,
+        target: (params.get('target') ?? undefined) as OutputTarget | undefined,
+        outputPath: params.get('output') ?? undefined,
+    };
+}
+
+/**
+ * Handles `vscode://pica-sol.llm-code-copier/copy?...` URIs. Unless 'llmCopier.confirmUriRequests' is disabled,
+ * the user confirms each request, with its output target and path, since any application can open such a link.
+ * The output path must be inside the workspace.
+ */
+async function handleUri(uri: vscode.Uri): Promise<void> {
+    if (uri.path !== '/copy') {
+        vscode.window.showErrorMessage(`Unknown LLM Code Copier link: ${uri.path}. Use /copy.`);
+        return;
+    }
+    const options = parseCopyQuery(uri.query);
+    if (options.uris!.length === 0 && options.globs!.length === 0) {
+        vscode.window.showErrorMessage('The LLM Code Copier link names no path or glob to copy.');
+        return;
+    }
+    if (options.target !== undefined && !OUTPUT_TARGETS.includes(options.target)) {
+        vscode.window.showErrorMessage(`The LLM Code Copier link names an unknown output target "${options.target}". Use ${OUTPUT_TARGETS.join(', ')}.`);
+        return;
+    }
+    // Links must not write outside the workspace, e.g. over a shell profile
+    const outputUri = options.outputPath ? resolveUri(options.outputPath) : undefined;
+    if (options.outputPath && (outputUri?.scheme !== 'file' || !getWorkspaceRootForUri(outputUri))) {
+        vscode.window.showErrorMessage(`The LLM Code Copier link names an output path outside the workspace: ${options.outputPath}`);
+        return;
+    }
+    if (vscode.workspace.getConfiguration('llmCopier').get<boolean>('confirmUriRequests', true)) {
+        const copy = 'Copy';
+        const requested = [...options.uris!, ...options.globs!];
+        const configuredTarget = vscode.workspace.getConfiguration('llmCopier').get<OutputTarget | 'ask'>('outputTarget', 'clipboard');
+        const target = options.target ?? (configuredTarget === 'ask' ? 'clipboard' : configuredTarget);
+        const choice = await vscode.window.showInformationMessage(
+            'A link asks LLM Code Copier to copy workspace files.',
+            {
+                modal: true,
+                detail: `${requested.slice(0, 10).join('\n')}${requested.length > 10 ? '\n...' : ''}\n\nOutput: ${target}${outputUri ? ` (${outputUri.fsPath})` : ''}`,
+            },
+            copy
+        );
+        if (choice !== copy) {
+            return;
+        }
+    }
+    await copyContextFromOptions(options);
+}
+
+/**
+ * Registers the `llmCopier.copyContext` command and the URI handler.
+ * @param context The extension context.
+ * @returns The API returned by `activate`.
+ */
+export function registerApi(context: vscode.ExtensionContext): LlmCopierApi {
+    context.subscriptions.push(
+        vscode.window.registerUriHandler({ handleUri }),
+
+        vscode.commands.registerCommand('llmCopier.copyContext', async (options?: CopyContextOptions) => {
+            if (isCopyContextOptions(options)) {
+                await copyContextFromOptions(options);
+                return;
+            }
+            const glob = await vscode.window.showInputBox({ prompt: 'Glob pattern of the files to copy', placeHolder: 'src/**/*.ts' });
+            if (glob) {
+                await copyContextFromOptions({ globs: [glob] });
+            }
+        })
+    );
+
+    return {
+        buildContext,
+        copyContext: options => copyContext(options),
+        registerOutputFormat,
+        registerTokenizer,
+    };
+}
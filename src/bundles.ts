@@ -0,0 +1,392 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * One member of a context bundle. Paths are stored relative to the workspace
+ * (prefixed with the workspace folder name in multi-root workspaces), or absolute when outside of it.
+ */
+export interface BundleItem {
+    type: 'file' | 'folder' | 'glob' | 'selection';
+    /** A file or folder path, or a glob pattern for "glob" items. */
+    path: string;
+    /** Zero-based line range of a pinned selection. */
+    range?: { startLine: number; endLine: number };
+}
+
+/**
+ * A named, persisted set of files, folders, globs and pinned selections that is copied together.
+ */
+export interface Bundle {
+    name: string;
+    items: BundleItem[];
+}
+
+const BUNDLE_ITEM_TYPES: BundleItem['type'][] = ['file', 'folder', 'glob', 'selection'];
+
+const BUNDLES_STATE_KEY = 'llmCopier.bundles';
+const BUNDLES_FILE_PATH = '.llmcopier/bundles.json';
+
+function usesBundlesFile(): boolean {
+    return vscode.workspace.getConfiguration('llmCopier').get<string>('bundleStorage', 'workspaceState') === 'file';
+}
+
+function getBundlesFileUri(): vscode.Uri | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    return workspaceFolders && workspaceFolders.length > 0 ? vscode.Uri.joinPath(workspaceFolders[0].uri, BUNDLES_FILE_PATH) : undefined;
+}
+
+function isBundleItem(value: any): value is BundleItem {
+    return typeof value === 'object' && value !== null
+        && BUNDLE_ITEM_TYPES.includes(value.type)
+        && typeof value.path === 'string'
+        && (value.range === undefined || (typeof value.range === 'object' && value.range !== null
+            && Number.isInteger(value.range.startLine) && Number.isInteger(value.range.endLine)));
+}
+
+/**
+ * Whether a bundle read from `.llmcopier/bundles.json` has a name and a well-formed list of items.
+ */
+function isBundle(value: any): value is Bundle {
+    return typeof value === 'object' && value !== null
+        && typeof value.name === 'string'
+        && Array.isArray(value.items) && value.items.every(isBundleItem);
+}
+
+/**
+ * Loads the bundles from workspace state or from `.llmcopier/bundles.json`, according to 'llmCopier.bundleStorage'.
+ */
+export async function loadBundles(context: vscode.ExtensionContext): Promise<Bundle[]> {
+    if (!usesBundlesFile()) {
+        return context.workspaceState.get<Bundle[]>(BUNDLES_STATE_KEY, []);
+    }
+    const fileUri = getBundlesFileUri();
+    if (!fileUri) {
+        return [];
+    }
+    try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+        const data = JSON.parse(content);
+        const bundles: unknown[] = Array.isArray(data?.bundles) ? data.bundles : [];
+        const validBundles = bundles.filter(isBundle);
+        if (validBundles.length < bundles.length) {
+            const skippedCount = bundles.length - validBundles.length;
+            console.error(`Skipped ${skippedCount} malformed bundle(s) in ${fileUri.fsPath}`);
+            vscode.window.showWarningMessage(`Skipped ${skippedCount} malformed bundle${skippedCount === 1 ? '' : 's'} in ${BUNDLES_FILE_PATH}: each bundle needs a "name" and an "items" array of file, folder, glob or selection items with a "path".`);
+        }
+        return validBundles;
+    } catch (error) {
+        if (!(error instanceof vscode.FileSystemError) || error.code !== 'FileNotFound') {
+            console.error(`Failed to read bundles from ${fileUri.fsPath}: ${error}`);
+            vscode.window.showWarningMessage(`Could not read ${BUNDLES_FILE_PATH}: ${error instanceof Error ? error.message : error}`);
+        }
+        return [];
+    }
+}
+
+/**
+ * Saves the bundles to workspace state or to `.llmcopier/bundles.json`, according to 'llmCopier.bundleStorage'.
+ */
+export async function saveBundles(context: vscode.ExtensionContext, bundles: Bundle[]): Promise<void> {
+    if (!usesBundlesFile()) {
+        await context.workspaceState.update(BUNDLES_STATE_KEY, bundles);
+        return;
+    }
+    const fileUri = getBundlesFileUri();
+    if (!fileUri) {
+        vscode.window.showErrorMessage(`Open a folder to store bundles in ${BUNDLES_FILE_PATH}.`);
+        return;
+    }
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'));
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(JSON.stringify({ bundles }, null, 2) + '\n', 'utf8'));
+}
+
+/**
+ * Converts a URI to the path stored in a bundle item.
+ */
+function toBundlePath(uri: vscode.Uri): string {
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+        return uri.fsPath;
+    }
+    return vscode.workspace.asRelativePath(uri).split(path.sep).join('/');
+}
+
+/**
+ * Resolves the path of a file, folder or selection bundle item to a URI.
+ * @param item The bundle item. Glob items have no single URI.
+ */
+export function getBundleItemUri(item: BundleItem): vscode.Uri | undefined {
+    if (item.type === 'glob') {
+        return undefined;
+    }
+    if (path.isAbsolute(item.path)) {
+        return vscode.Uri.file(item.path);
+    }
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length > 1) {
+        const [folderName, ...rest] = item.path.split('/');
+        const folder = workspaceFolders.find(workspaceFolder => workspaceFolder.name === folderName);
+        if (folder) {
+            return vscode.Uri.joinPath(folder.uri, ...rest);
+        }
+    }
+    return workspaceFolders.length > 0 ? vscode.Uri.joinPath(workspaceFolders[0].uri, item.path) : undefined;
+}
+
+/**
+ * Describes a bundle item for display, e.g. "src/app.ts:10-24" for a pinned selection.
+ */
+export function describeBundleItem(item: BundleItem): string {
+    return item.range ? `${item.path}:${item.range.startLine + 1}-${item.range.endLine + 1}` : item.path;
+}
+
+type BundleTreeNode = { bundle: Bundle; item?: undefined } | { bundle: Bundle; item: BundleItem };
+
+let selectedBundlePath: string | undefined;
+const selectedBundlePathEmitter = new vscode.EventEmitter<string | undefined>();
+
+/**
+ * Fires when the path of the node selected in the "LLM Context Bundles" view changes.
+ */
+export const onDidChangeSelectedBundlePath = selectedBundlePathEmitter.event;
+
+/**
+ * The path of the node selected in the "LLM Context Bundles" view: the file or folder of a selected item,
+ * or of the first such item of a selected bundle.
+ * @returns The absolute path, or undefined if nothing with a path is selected.
+ */
+export function getSelectedBundlePath(): string | undefined {
+    return selectedBundlePath;
+}
+
+function getBundleNodePath(node: BundleTreeNode | undefined): string | undefined {
+    const items = !node ? [] : node.item ? [node.item] : node.bundle.items;
+    for (const item of items) {
+        const uri = getBundleItemUri(item);
+        if (uri) {
+            return uri.fsPath;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Shows the bundles and their items in the "LLM Context Bundles" view.
+ */
+class BundleTreeProvider implements vscode.TreeDataProvider<BundleTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<BundleTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    async getChildren(node?: BundleTreeNode): Promise<BundleTreeNode[]> {
+        if (!node) {
+            return (await loadBundles(this.context)).map(bundle => ({ bundle }));
+        }
+        return node.item ? [] : node.bundle.items.map(item => ({ bundle: node.bundle, item }));
+    }
+
+    getTreeItem(node: BundleTreeNode): vscode.TreeItem {
+        if (!node.item) {
+            const treeItem = new vscode.TreeItem(node.bundle.name, vscode.TreeItemCollapsibleState.Collapsed);
+            treeItem.description = `${node.bundle.items.length} item${node.bundle.items.length === 1 ? '' : 's'}`;
+            treeItem.contextValue = 'llmCopierBundle';
+            treeItem.iconPath = new vscode.ThemeIcon('package');
+            return treeItem;
+        }
+
+        const item = node.item;
+        const treeItem = new vscode.TreeItem(describeBundleItem(item), vscode.TreeItemCollapsibleState.None);
+        treeItem.description = item.type;
+        treeItem.contextValue = 'llmCopierBundleItem';
+        const uri = getBundleItemUri(item);
+        if (item.type === 'glob') {
+            treeItem.iconPath = new vscode.ThemeIcon('filter');
+        } else if (uri) {
+            treeItem.resourceUri = uri;
+            treeItem.iconPath = item.type === 'folder' ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+            if (item.type !== 'folder') {
+                const selection = item.range ? new vscode.Range(item.range.startLine, 0, item.range.endLine, 0) : undefined;
+                treeItem.command = { command: 'vscode.open', title: 'Open', arguments: [uri, { selection }] };
+            }
+        }
+        return treeItem;
+    }
+}
+
+/**
+ * Asks the user for the name of a new bundle.
+ * @returns The trimmed name, or undefined if cancelled.
+ */
+async function promptNewBundleName(bundles: Bundle[]): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Bundle name',
+        validateInput: value => !value.trim() ? 'Enter a name.' : bundles.some(bundle => bundle.name === value.trim()) ? 'A bundle with this name already exists.' : undefined,
+    });
+    return name?.trim();
+}
+
+/**
+ * Asks the user to pick a bundle, offering to create a new one.
+ * @returns The bundle name, or undefined if cancelled.
+ */
+async function pickBundleName(bundles: Bundle[], placeHolder: string): Promise<string | undefined> {
+    const newBundleLabel = '$(add) New Bundle...';
+    const choice = bundles.length === 0
+        ? newBundleLabel
+        : await vscode.window.showQuickPick([...bundles.map(bundle => bundle.name), newBundleLabel], { placeHolder });
+    return choice === newBundleLabel ? promptNewBundleName(bundles) : choice;
+}
+
+/**
+ * Registers the bundles view and the commands that create, edit and copy bundles.
+ * @param context The extension context.
+ * @param copyBundle Copies a bundle through the shared formatting and prompt.txt pipeline.
+ */
+export function registerBundles(context: vscode.ExtensionContext, copyBundle: (bundle: Bundle) => Promise<void>): void {
+    const treeProvider = new BundleTreeProvider(context);
+
+    async function updateBundles(update: (bundles: Bundle[]) => void): Promise<void> {
+        const bundles = await loadBundles(context);
+        update(bundles);
+        await saveBundles(context, bundles);
+        treeProvider.refresh();
+    }
+
+    async function addItems(items: BundleItem[]): Promise<void> {
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('Nothing to add to a bundle.');
+            return;
+        }
+        const name = await pickBundleName(await loadBundles(context), 'Add to bundle');
+        if (!name) {
+            return;
+        }
+        await updateBundles(bundles => {
+            let bundle = bundles.find(existing => existing.name === name);
+            if (!bundle) {
+                bundle = { name, items: [] };
+                bundles.push(bundle);
+            }
+            for (const item of items) {
+                if (!bundle.items.some(existing => JSON.stringify(existing) === JSON.stringify(item))) {
+                    bundle.items.push(item);
+                }
+            }
+        });
+        vscode.window.showInformationMessage(`Added ${items.length} item${items.length > 1 ? 's' : ''} to bundle "${name}".`);
+    }
+
+    const treeView = vscode.window.createTreeView('llmCopier.bundles', { treeDataProvider: treeProvider });
+
+    context.subscriptions.push(
+        treeView,
+
+        treeView.onDidChangeSelection(e => {
+            const nodePath = getBundleNodePath(e.selection[0]);
+            if (nodePath !== selectedBundlePath) {
+                selectedBundlePath = nodePath;
+                selectedBundlePathEmitter.fire(nodePath);
+            }
+        }),
+
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('llmCopier.bundleStorage')) {
+                treeProvider.refresh();
+            }
+        }),
+
+        vscode.commands.registerCommand('llmCopier.createBundle', async () => {
+            const name = await promptNewBundleName(await loadBundles(context));
+            if (name) {
+                await updateBundles(current => { current.push({ name, items: [] }); });
+            }
+        }),
+
+        // From the explorer: the clicked item and the multi-selection
+        vscode.commands.registerCommand('llmCopier.addToBundle', async (contextUri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+            const uris = selectedUris && selectedUris.length > 0 ? selectedUris : contextUri ? [contextUri] : [];
+            const items: BundleItem[] = [];
+            for (const uri of uris) {
+                try {
+                    const stat = await vscode.workspace.fs.stat(uri);
+                    items.push({ type: stat.type === vscode.FileType.Directory ? 'folder' : 'file', path: toBundlePath(uri) });
+                } catch (error) {
+                    vscode.window.showWarningMessage(`Could not access "${path.basename(uri.fsPath)}".`);
+                }
+            }
+            await addItems(items);
+        }),
+
+        // From the editor: the selections as pinned ranges, or the whole file
+        vscode.commands.registerCommand('llmCopier.addEditorToBundle', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.uri.scheme !== 'file') {
+                vscode.window.showErrorMessage('No active file editor.');
+                return;
+            }
+            const bundlePath = toBundlePath(editor.document.uri);
+            const selections = editor.selections.filter(selection => !selection.isEmpty);
+            await addItems(selections.length > 0
+                ? selections.map(selection => ({
+                    type: 'selection',
+                    path: bundlePath,
+                    range: { startLine: selection.start.line, endLine: selection.end.line },
+                }))
+                : [{ type: 'file', path: bundlePath }]);
+        }),
+
+        vscode.commands.registerCommand('llmCopier.addGlobToBundle', async (node?: BundleTreeNode) => {
+            const glob = await vscode.window.showInputBox({ prompt: 'Glob pattern, relative to the workspace folder(s)', placeHolder: 'src/**/*.ts' });
+            if (!glob) {
+                return;
+            }
+            if (node) {
+                await updateBundles(bundles => bundles.find(bundle => bundle.name === node.bundle.name)?.items.push({ type: 'glob', path: glob }));
+            } else {
+                await addItems([{ type: 'glob', path: glob }]);
+            }
+        }),
+
+        vscode.commands.registerCommand('llmCopier.removeFromBundle', async (node?: BundleTreeNode) => {
+            if (!node?.item) {
+                return;
+            }
+            const removed = JSON.stringify(node.item);
+            await updateBundles(bundles => {
+                const bundle = bundles.find(existing => existing.name === node.bundle.name);
+                if (bundle) {
+                    bundle.items = bundle.items.filter(item => JSON.stringify(item) !== removed);
+                }
+            });
+        }),
+
+        vscode.commands.registerCommand('llmCopier.deleteBundle', async (node?: BundleTreeNode) => {
+            const name = node?.bundle.name ?? await vscode.window.showQuickPick((await loadBundles(context)).map(bundle => bundle.name), { placeHolder: 'Delete bundle' });
+            if (!name) {
+                return;
+            }
+            const confirm = await vscode.window.showWarningMessage(`Delete bundle "${name}"?`, { modal: true }, 'Delete');
+            if (confirm === 'Delete') {
+                await updateBundles(bundles => {
+                    const index = bundles.findIndex(bundle => bundle.name === name);
+                    if (index !== -1) {
+                        bundles.splice(index, 1);
+                    }
+                });
+            }
+        }),
+
+        vscode.commands.registerCommand('llmCopier.copyBundle', async (node?: BundleTreeNode) => {
+            const bundles = await loadBundles(context);
+            const name = node?.bundle.name ?? await vscode.window.showQuickPick(bundles.map(bundle => bundle.name), { placeHolder: 'Copy bundle' });
+            const bundle = bundles.find(existing => existing.name === name);
+            if (bundle) {
+                await copyBundle(bundle);
+            }
+        }),
+    );
+}
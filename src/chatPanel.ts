@@ -0,0 +1,341 @@
+import * as vscode from 'vscode';
+import { fetch } from 'undici';
+import { ContentEntry, formatEntries } from './outputFormats';
+import { createContentEntry } from './fileUtils';
+import { createSelectionEntries } from './selectionContext';
+import { redactEntries, describeRedactions } from './redaction';
+
+/**
+ * Key of the chat endpoint's API key in the extension's secret storage.
+ */
+const API_KEY_SECRET = 'llmCopier.chatApiKey';
+
+const DEFAULT_ENDPOINTS: Record<string, string> = {
+    ollama: 'http://localhost:11434',
+    openai: 'https://api.openai.com/v1',
+};
+
+interface ChatMessage {
+    role: string;
+    content: string;
+}
+
+export interface ChatEndpoint {
+    provider: 'ollama' | 'openai';
+    baseUrl: string;
+    apiKey: string | undefined;
+}
+
+/**
+ * Messages posted by webview/ui.js.
+ */
+type WebviewMessage =
+    | { command: 'prepare'; model: string }
+    | { command: 'run'; model: string; messages: ChatMessage[]; containSeletedText: boolean; currentTextareaId: string }
+    | { command: 'insert'; text: string };
+
+let chatPanel: vscode.WebviewPanel | undefined;
+
+/**
+ * The editor the chat reads context from and inserts code into. The panel takes the focus away
+ * from the editor, so the last active text editor is remembered instead of using `activeTextEditor`.
+ */
+let targetEditor: vscode.TextEditor | undefined;
+
+async function getChatEndpoint(context: vscode.ExtensionContext): Promise<ChatEndpoint> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const provider = config.get<string>('chatProvider', 'ollama') === 'openai' ? 'openai' : 'ollama';
+    const baseUrl = (config.get<string>('chatEndpoint', '').trim() || DEFAULT_ENDPOINTS[provider]).replace(/\/+$/, '');
+    return { provider, baseUrl, apiKey: await context.secrets.get(API_KEY_SECRET) };
+}
+
+function getRequestHeaders(endpoint: ChatEndpoint): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (endpoint.apiKey) {
+        headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+    }
+    return headers;
+}
+
+/**
+ * Lists the models offered in the panel: 'llmCopier.chatModels' if set, otherwise the models the endpoint reports.
+ * @returns The model names, or an empty list if the endpoint cannot be reached (the panel keeps its defaults).
+ */
+export async function listChatModels(endpoint: ChatEndpoint): Promise<string[]> {
+    const configured = vscode.workspace.getConfiguration('llmCopier').get<string[]>('chatModels', []);
+    if (configured.length > 0) {
+        return configured;
+    }
+    try {
+        const url = endpoint.provider === 'ollama' ? `${endpoint.baseUrl}/api/tags` : `${endpoint.baseUrl}/models`;
+        const response = await fetch(url, { headers: getRequestHeaders(endpoint) });
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+        }
+        const body = await response.json() as { models?: { name: string }[]; data?: { id: string }[] };
+        return endpoint.provider === 'ollama'
+            ? (body.models ?? []).map(model => model.name)
+            : (body.data ?? []).map(model => model.id);
+    } catch (error) {
+        console.warn(`Failed to list chat models from ${endpoint.baseUrl}: ${error}`);
+        return [];
+    }
+}
+
+/**
+ * Streams a chat completion, yielding the content deltas as they arrive.
+ * Ollama answers with one JSON object per line, OpenAI-compatible servers with server-sent events.
+ * @throws {Error} If the request fails or the endpoint reports an error.
+ */
+export async function* streamChatCompletion(endpoint: ChatEndpoint, model: string, messages: ChatMessage[], signal: AbortSignal): AsyncGenerator<string> {
+    const url = endpoint.provider === 'ollama' ? `${endpoint.baseUrl}/api/chat` : `${endpoint.baseUrl}/chat/completions`;
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: getRequestHeaders(endpoint),
+        body: JSON.stringify({ model, messages, stream: true }),
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        throw new Error(`${url} responded with ${response.status} ${response.statusText}: ${(await response.text()).trim()}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of response.body) {
+        buffered += decoder.decode(chunk, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+            const content = parseStreamLine(endpoint, line.trim());
+            if (content === undefined) {
+                return;
+            }
+            yield content;
+        }
+    }
+    const content = parseStreamLine(endpoint, buffered.trim());
+    if (content) {
+        yield content;
+    }
+}
+
+/**
+ * Extracts the content delta from one line of a streamed response.
+ * @returns The delta (possibly empty), or undefined once the stream reports it is done.
+ */
+function parseStreamLine(endpoint: ChatEndpoint, line: string): string | undefined {
+    if (endpoint.provider === 'ollama') {
+        if (!line) {
+            return '';
+        }
+        const data = JSON.parse(line);
+        if (data.error) {
+            throw new Error(data.error);
+        }
+        return data.done ? (data.message?.content || undefined) : (data.message?.content ?? '');
+    }
+
+    // Server-sent events: only "data:" lines carry chunks
+    if (!line.startsWith('data:')) {
+        return '';
+    }
+    const payload = line.slice('data:'.length).trim();
+    if (payload === '[DONE]') {
+        return undefined;
+    }
+    const data = JSON.parse(payload);
+    if (data.error) {
+        throw new Error(data.error.message ?? JSON.stringify(data.error));
+    }
+    return data.choices?.[0]?.delta?.content ?? '';
+}
+
+/**
+ * Builds the code context for the chat like the copy commands do: the target editor's selections,
+ * or its whole document if nothing is selected, redacted and in the configured output format.
+ * @returns The formatted context, or undefined if there is no editor or its file is on the secret denylist.
+ */
+async function buildEditorContext(): Promise<string | undefined> {
+    if (!targetEditor || targetEditor.document.isClosed) {
+        return undefined;
+    }
+    let entries: ContentEntry[] = await createSelectionEntries(targetEditor);
+    if (entries.length === 0) {
+        const document = targetEditor.document;
+        entries = [createContentEntry(document.uri, document.getText(), document.languageId)];
+    }
+    const redaction = redactEntries(entries);
+    const redactionWarning = describeRedactions(redaction);
+    if (redactionWarning) {
+        vscode.window.showWarningMessage(redactionWarning);
+    }
+    return redaction.entries.length > 0 ? formatEntries(redaction.entries) : undefined;
+}
+
+/**
+ * Replaces the target editor's selections with the given text (inserts at the cursors if nothing is selected).
+ */
+async function insertIntoEditor(text: string): Promise<void> {
+    const editor = targetEditor;
+    if (!editor || editor.document.isClosed) {
+        vscode.window.showErrorMessage('No editor to insert the code into. Open a file first.');
+        return;
+    }
+    await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+    const applied = await editor.edit(editBuilder => {
+        for (const selection of editor.selections) {
+            editBuilder.replace(selection, text);
+        }
+    });
+    if (!applied) {
+        vscode.window.showErrorMessage('Failed to insert the code into the editor.');
+    }
+}
+
+/**
+ * Loads webview/panel.html, pointing its relative script and stylesheet references at webview URIs
+ * and adding a content security policy.
+ */
+async function getPanelHtml(context: vscode.ExtensionContext, webview: vscode.Webview): Promise<string> {
+    const webviewRoot = vscode.Uri.joinPath(context.extensionUri, 'webview');
+    const html = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewRoot, 'panel.html'))).toString('utf8');
+    const csp = `default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src ${webview.cspSource} 'unsafe-inline';`;
+    return html
+        .replace(/(href|src)="(?![a-z]+:)([^"]+)"/g, (_match, attribute: string, relativePath: string) =>
+            `${attribute}="${webview.asWebviewUri(vscode.Uri.joinPath(webviewRoot, relativePath))}"`)
+        .replace('<head>', `<head>\n  <meta http-equiv="Content-Security-Policy" content="${csp}">`);
+}
+
+/**
+ * Opens the chat panel, or reveals it if it is already open.
+ */
+async function openChatPanel(context: vscode.ExtensionContext): Promise<void> {
+    if (chatPanel) {
+        chatPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel('llmCopier.chat', 'LLM Chat', vscode.ViewColumn.Beside, {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, 'webview')],
+    });
+    chatPanel = panel;
+
+    let runningRequest: AbortController | undefined;
+    const disposables: vscode.Disposable[] = [];
+    panel.onDidDispose(() => {
+        chatPanel = undefined;
+        runningRequest?.abort();
+        disposables.forEach(disposable => disposable.dispose());
+    }, null, disposables);
+
+    panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
+        try {
+            const endpoint = await getChatEndpoint(context);
+
+            if (message.command === 'prepare') {
+                // Ollama loads a model into memory when asked to chat with no messages
+                if (endpoint.provider === 'ollama') {
+                    fetch(`${endpoint.baseUrl}/api/chat`, { method: 'POST', headers: getRequestHeaders(endpoint), body: JSON.stringify({ model: message.model, messages: [] }) })
+                        .catch(error => console.warn(`Failed to preload model ${message.model}: ${error}`));
+                }
+            } else if (message.command === 'run') {
+                const messages = message.messages.filter(chatMessage => chatMessage.content.trim() !== '');
+                if (message.containSeletedText) {
+                    const editorContext = await buildEditorContext();
+                    if (editorContext === undefined) {
+                        vscode.window.showWarningMessage('No code to include from the editor; sending the question without it.');
+                    } else {
+                        const question = message.messages[message.messages.length - 1]?.content ?? '';
+                        const content = question ? `${editorContext}\n${question}` : editorContext;
+                        if (question.trim()) {
+                            messages.pop();
+                        }
+                        messages.push({ role: 'user', content });
+                        // Show the context in the question's textarea, so follow-up questions carry it too
+                        panel.webview.postMessage({ command: 'appendCode', currentTextareaId: message.currentTextareaId, data: content });
+                    }
+                }
+
+                runningRequest?.abort();
+                const request = new AbortController();
+                runningRequest = request;
+                try {
+                    for await (const content of streamChatCompletion(endpoint, message.model, messages, request.signal)) {
+                        panel.webview.postMessage({ command: 'append', data: { done: false, message: { content } } });
+                    }
+                } catch (error) {
+                    if (!request.signal.aborted) {
+                        console.error(`Chat request to ${endpoint.baseUrl} failed: ${error}`);
+                        vscode.window.showErrorMessage(`Chat request to ${endpoint.baseUrl} failed: ${error}`);
+                        panel.webview.postMessage({ command: 'append', data: { done: false, message: { content: `\n\n[Error: ${error}]` } } });
+                    }
+                } finally {
+                    if (runningRequest === request) {
+                        runningRequest = undefined;
+                    }
+                    if (chatPanel === panel) {
+                        panel.webview.postMessage({ command: 'append', data: { done: true } });
+                    }
+                }
+            } else if (message.command === 'insert') {
+                await insertIntoEditor(message.text);
+            }
+        } catch (error) {
+            console.error(`Chat panel failed to handle "${message.command}": ${error}`);
+            vscode.window.showErrorMessage(`Chat panel failed to handle "${message.command}": ${error}`);
+            if (message.command === 'run' && chatPanel === panel) {
+                panel.webview.postMessage({ command: 'append', data: { done: true } });
+            }
+        }
+    }, null, disposables);
+
+    panel.webview.html = await getPanelHtml(context, panel.webview);
+
+    const models = await listChatModels(await getChatEndpoint(context));
+    if (models.length > 0) {
+        panel.webview.postMessage({ command: 'models', models });
+    }
+}
+
+/**
+ * Registers the "Open Chat" command, which hosts webview/panel.html and streams answers from
+ * an Ollama or OpenAI-compatible endpoint ('llmCopier.chatProvider', 'llmCopier.chatEndpoint'),
+ * and the command storing the endpoint's API key in the secret storage.
+ */
+export function registerChatPanel(context: vscode.ExtensionContext): void {
+    targetEditor = vscode.window.activeTextEditor;
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor) {
+                targetEditor = editor;
+            }
+        }),
+        vscode.commands.registerCommand('llmCopier.openChat', async () => {
+            try {
+                await openChatPanel(context);
+            } catch (error) {
+                console.error(`Failed to open the chat panel: ${error}`);
+                vscode.window.showErrorMessage(`Failed to open the chat panel: ${error}`);
+            }
+        }),
+        vscode.commands.registerCommand('llmCopier.setChatApiKey', async () => {
+            const apiKey = await vscode.window.showInputBox({
+                prompt: 'API key for the chat endpoint (leave empty to remove the stored key)',
+                password: true,
+                ignoreFocusOut: true,
+            });
+            if (apiKey === undefined) {
+                return;
+            }
+            if (apiKey) {
+                await context.secrets.store(API_KEY_SECRET, apiKey);
+                vscode.window.showInformationMessage('Chat API key saved.');
+            } else {
+                await context.secrets.delete(API_KEY_SECRET);
+                vscode.window.showInformationMessage('Chat API key removed.');
+            }
+        })
+    );
+}
@@ -0,0 +1,483 @@
+import * as vscode from 'vscode';
+import { getTokenizer, formatTokenCount } from './tokenizer';
+import { ContentEntry, OutputFormat, getOutputFormat, formatEntries } from './outputFormats';
+import { RedactionResult, redactEntries, redactText, describeRedactions } from './redaction';
+import { getWorkspaceRootForUri, qualifyPathsAcrossWorkspaceFolders } from './fileUtils';
+import { compressEntries } from './outline';
+
+/**
+ * Everything a copy command assembles before it is formatted and written to its output target.
+ */
+export interface CopyPayload {
+    /** Leading text emitted verbatim, e.g. the prompt.txt content. */
+    prompt: string;
+    /**
+     * Text placed between the prompt and the entries, e.g. the directory tree. A function builds it from the entries
+     * actually written, after the secret denylist and the token budget.
+     */
+    header?: string | ((writtenEntries: ContentEntry[]) => Promise<string>);
+    /** Files and selections, formatted with the configured output format. */
+    entries: ContentEntry[];
+    /** Trailing text emitted verbatim, e.g. the part of a prompt template after {{content}}. */
+    epilogue?: string;
+    /** Files the user picked, kept in full by the "hybrid" 'llmCopier.compressionMode'. */
+    fullContentUris?: vscode.Uri[];
+    /** The command that made the copy, e.g. "Copy Folder Content", recorded in the copy history. */
+    command?: string;
+}
+
+/**
+ * Where a copy goes: the clipboard, a single file, numbered chunk files, or a new untitled editor.
+ */
+export type OutputTarget = 'clipboard' | 'file' | 'chunks' | 'untitled';
+
+/**
+ * Outcome of a successful write.
+ */
+export interface WriteResult {
+    tokenCount: number;
+    /** Entries removed to fit 'llmCopier.maxTokens'. */
+    droppedEntries: ContentEntry[];
+    /** Entries refused because they match 'llmCopier.secretFileDenylist'. */
+    refusedEntries: ContentEntry[];
+    target: OutputTarget;
+    /** The written file, or the folder holding the chunk files. */
+    location?: vscode.Uri;
+    /** Number of chunk files written, for the "chunks" target. */
+    chunkCount?: number;
+}
+
+/**
+ * Overrides for a single write, used by the API, the URI handler and command arguments.
+ */
+export interface WriteOptions {
+    /** Output format id, instead of 'llmCopier.outputFormat'. */
+    format?: string;
+    /** Token budget, instead of 'llmCopier.maxTokens'; 0 disables the budget. */
+    maxTokens?: number;
+    /**
+     * Writes without dialogs: the largest entries are dropped when the budget is exceeded, "ask" falls back to the
+     * clipboard, and the "file" and "chunks" targets require outputUri.
+     */
+    headless?: boolean;
+    /** The file ("file" target) or folder ("chunks" target) to write to instead of asking. */
+    outputUri?: vscode.Uri;
+}
+
+/**
+ * A payload formatted without writing it anywhere.
+ */
+export interface RenderedPayload {
+    text: string;
+    tokenCount: number;
+    /** The leading text as written. */
+    prompt: string;
+    /** The text between the prompt and the entries as written, or an empty string. */
+    header: string;
+    /** The trailing text as written, or an empty string. */
+    epilogue: string;
+    /** The entries as formatted: outlined, redacted, and without the dropped or refused entries. */
+    entries: ContentEntry[];
+    /** Entries removed to fit the token budget. */
+    droppedEntries: ContentEntry[];
+    /** Entries refused because they match 'llmCopier.secretFileDenylist'. */
+    refusedEntries: ContentEntry[];
+    /** What the redaction masked or refused, if anything. */
+    redactionWarning?: string;
+}
+
+/**
+ * A payload that was written to its output target.
+ */
+export interface WrittenPayload {
+    payload: CopyPayload;
+    result: WriteResult;
+    /** The payload as written. */
+    rendered: RenderedPayload;
+}
+
+const writtenPayloadEmitter = new vscode.EventEmitter<WrittenPayload>();
+
+/**
+ * Fires after every successful write, e.g. to record the copy history.
+ */
+export const onDidWritePayload = writtenPayloadEmitter.event;
+
+let tokenStatusBarItem: vscode.StatusBarItem | undefined;
+
+/**
+ * Creates the status bar item showing the token count of the last copy.
+ * @param context The extension context, used to dispose the item on deactivation.
+ */
+export function initializeTokenStatusBar(context: vscode.ExtensionContext): void {
+    tokenStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    tokenStatusBarItem.name = 'LLM Code Copier Tokens';
+    context.subscriptions.push(tokenStatusBarItem);
+}
+
+function updateTokenStatusBar(tokenCount: number, maxTokens: number): void {
+    if (!tokenStatusBarItem) {
+        return;
+    }
+    tokenStatusBarItem.text = `$(clippy) ${formatTokenCount(tokenCount)} tokens`;
+    tokenStatusBarItem.tooltip = maxTokens > 0
+        ? `LLM Code Copier: last copy was ~${tokenCount} tokens (budget ${maxTokens})`
+        : `LLM Code Copier: last copy was ~${tokenCount} tokens`;
+    tokenStatusBarItem.show();
+}
+
+const OUTPUT_TARGET_ITEMS: (vscode.QuickPickItem & { target: OutputTarget })[] = [
+    { label: '$(clippy) Clipboard', target: 'clipboard' },
+    { label: '$(file) File...', description: 'Save as one .md/.txt file', target: 'file' },
+    { label: '$(files) Chunk Files...', description: "Split at 'llmCopier.chunkSize' into numbered files", target: 'chunks' },
+    { label: '$(edit) Untitled Editor', description: 'Review and edit before sending', target: 'untitled' },
+];
+
+/**
+ * Resolves the output target of a headless write, where "ask" falls back to the clipboard.
+ * @returns The target, or undefined if it is "file" or "chunks" without an output URI.
+ */
+function resolveHeadlessOutputTarget(target: OutputTarget | 'ask' | undefined, outputUri?: vscode.Uri): OutputTarget | undefined {
+    const resolved = target ?? vscode.workspace.getConfiguration('llmCopier').get<OutputTarget | 'ask'>('outputTarget', 'clipboard');
+    if (resolved === 'ask') {
+        return 'clipboard';
+    }
+    if ((resolved === 'file' || resolved === 'chunks') && !outputUri) {
+        vscode.window.showErrorMessage(`The "${resolved}" output target needs an output path when copying without dialogs.`);
+        return undefined;
+    }
+    return resolved;
+}
+
+/**
+ * Resolves the output target: the given one, or 'llmCopier.outputTarget', asking the user if that is "ask".
+ * @returns The target, or undefined if the user cancelled the choice.
+ */
+async function resolveOutputTarget(target: OutputTarget | 'ask' | undefined): Promise<OutputTarget | undefined> {
+    const resolved = target ?? vscode.workspace.getConfiguration('llmCopier').get<OutputTarget | 'ask'>('outputTarget', 'clipboard');
+    if (resolved !== 'ask') {
+        return resolved;
+    }
+    const item = await vscode.window.showQuickPick(OUTPUT_TARGET_ITEMS, { placeHolder: 'Copy the content to...' });
+    return item?.target;
+}
+
+/**
+ * File extension and editor language matching the output format.
+ */
+function getFormatFileType(format: OutputFormat): { extension: string; languageId: string } {
+    switch (format.id) {
+        case 'markdown':
+            return { extension: 'md', languageId: 'markdown' };
+        case 'xml':
+            return { extension: 'xml', languageId: 'xml' };
+        case 'json':
+            return { extension: 'json', languageId: 'json' };
+        default:
+            return { extension: 'txt', languageId: 'plaintext' };
+    }
+}
+
+/**
+ * The folder offered by default when saving: the workspace folder of the first entry, or the first workspace folder.
+ */
+function getDefaultSaveFolder(entries: ContentEntry[]): vscode.Uri | undefined {
+    const firstUri = entries.find(entry => entry.uri)?.uri;
+    return (firstUri && getWorkspaceRootForUri(firstUri)) ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+}
+
+/**
+ * Splits the payload into chunks of at most 'llmCopier.chunkSize' tokens or bytes ('llmCopier.chunkSizeUnit').
+ * Chunks end at entry boundaries; entries larger than a chunk are split by lines into "(part i of n)" entries.
+ * The leading text goes into the first chunk and the trailing text into the last, and each chunk is a complete
+ * document in the output format.
+ * @returns The chunk texts, in order.
+ */
+function splitIntoChunks(leadingText: string, entries: ContentEntry[], trailingText: string, format: OutputFormat): string[] {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const tokenizer = getTokenizer();
+    const measure = config.get<string>('chunkSizeUnit', 'tokens') === 'bytes'
+        ? (text: string) => Buffer.byteLength(text, 'utf8')
+        : (text: string) => tokenizer.countTokens(text);
+    const frame = measure((format.header ?? '') + (format.footer ?? ''));
+    const limit = Math.max(config.get<number>('chunkSize', 30000), frame + 1);
+
+    // Split oversized entries by lines, leaving room for the entry's own heading and fence
+    const pieces: { entry: ContentEntry; size: number }[] = [];
+    for (const entry of entries) {
+        const size = measure(format.formatEntry(entry)) + measure(format.separator ?? '');
+        if (frame + size <= limit) {
+            pieces.push({ entry, size });
+            continue;
+        }
+        const overhead = measure(format.formatEntry({ ...entry, path: `${entry.path} (part 00 of 00)`, content: '' }));
+        const lineLimit = Math.max(1, limit - frame - overhead);
+        const parts: string[][] = [[]];
+        let partSize = 0;
+        for (const line of entry.content.split('\n')) {
+            const lineSize = measure(line + '\n');
+            if (partSize + lineSize > lineLimit && parts[parts.length - 1].length > 0) {
+                parts.push([]);
+                partSize = 0;
+            }
+            parts[parts.length - 1].push(line);
+            partSize += lineSize;
+        }
+        parts.forEach((lines, index) => {
+            const part = { ...entry, path: `${entry.path} (part ${index + 1} of ${parts.length})`, content: lines.join('\n') };
+            pieces.push({ entry: part, size: measure(format.formatEntry(part)) });
+        });
+    }
+
+    const chunks: ContentEntry[][] = [[]];
+    let chunkSize = frame + measure(leadingText);
+    for (const piece of pieces) {
+        if (chunkSize + piece.size > limit && chunks[chunks.length - 1].length > 0) {
+            chunks.push([]);
+            chunkSize = frame;
+        }
+        chunks[chunks.length - 1].push(piece.entry);
+        chunkSize += piece.size;
+    }
+
+    return chunks.map((chunk, index) =>
+        (index === 0 ? leadingText : '') + formatEntries(chunk, format) + (index === chunks.length - 1 ? trailingText : ''));
+}
+
+/**
+ * Outlines the entries according to 'llmCopier.compressionMode', qualifies their paths across workspace folders
+ * and redacts secrets.
+ */
+async function prepareEntries(payload: CopyPayload): Promise<RedactionResult> {
+    const compressedEntries = await compressEntries(payload.entries, payload.fullContentUris);
+    return redactEntries(qualifyPathsAcrossWorkspaceFolders(compressedEntries));
+}
+
+/**
+ * Picks the largest entries to drop until the content fits the token budget.
+ * @param entriesBySize The entries, largest first.
+ */
+function selectEntriesToDrop(entriesBySize: ContentEntry[], entryTokenCounts: Map<ContentEntry, number>, tokenCount: number, maxTokens: number): ContentEntry[] {
+    const droppedEntries: ContentEntry[] = [];
+    let remainingTokens = tokenCount;
+    for (const entry of entriesBySize) {
+        if (remainingTokens <= maxTokens) {
+            break;
+        }
+        droppedEntries.push(entry);
+        remainingTokens -= entryTokenCounts.get(entry)!;
+    }
+    return droppedEntries;
+}
+
+/**
+ * Decides what to do with content over the token budget: copy it anyway, drop the largest entries until it fits,
+ * or cancel (undefined).
+ * @param entriesBySize The entries, largest first.
+ */
+type OverBudgetHandler = (tokenCount: number, maxTokens: number, entriesBySize: ContentEntry[], entryTokenCounts: Map<ContentEntry, number>) => Promise<'copyAnyway' | 'trim' | undefined>;
+
+/**
+ * Asks the user whether to copy content over the token budget anyway or to drop the largest files.
+ */
+const askOverBudget: OverBudgetHandler = async (tokenCount, maxTokens, entriesBySize, entryTokenCounts) => {
+    const largestEntries = entriesBySize.slice(0, 5)
+        .map(entry => `${entry.path}: ~${formatTokenCount(entryTokenCounts.get(entry)!)} tokens`)
+        .join('\n');
+
+    const copyAnyway = 'Copy Anyway';
+    const trim = 'Drop Largest Files';
+    const choice = await vscode.window.showWarningMessage(
+        `The content is ~${formatTokenCount(tokenCount)} tokens, over the budget of ${formatTokenCount(maxTokens)} (llmCopier.maxTokens).`,
+        { modal: true, detail: largestEntries ? `Largest files:\n${largestEntries}` : undefined },
+        copyAnyway,
+        ...(entriesBySize.length > 0 ? [trim] : [])
+    );
+    return choice === trim ? 'trim' : choice === copyAnyway ? 'copyAnyway' : undefined;
+};
+
+/**
+ * Outlines, redacts and formats a payload and enforces the token budget, the steps shared by every copy and the API.
+ * @param handleOverBudget Decides what to do when the content exceeds the budget; by default the largest entries are dropped.
+ * @returns The rendered payload, or undefined if the handler cancelled.
+ */
+async function renderPayloadWith(payload: CopyPayload, options: Pick<WriteOptions, 'format' | 'maxTokens'>, handleOverBudget?: OverBudgetHandler): Promise<RenderedPayload | undefined> {
+    const tokenizer = getTokenizer();
+    const format = getOutputFormat(options.format);
+    const maxTokens = options.maxTokens ?? vscode.workspace.getConfiguration('llmCopier').get<number>('maxTokens', 0);
+
+    const redaction = await prepareEntries(payload);
+    // The prompt may hold the editor selection or user input, so it is redacted like the entries
+    const prompt = redactText(payload.prompt, 'prompt', redaction);
+    const epilogue = redactText(payload.epilogue ?? '', 'prompt', redaction);
+    const buildHeader = async (writtenEntries: ContentEntry[]) => typeof payload.header === 'function' ? payload.header(writtenEntries) : payload.header ?? '';
+    let entries = redaction.entries;
+    let header = await buildHeader(entries);
+    let droppedEntries: ContentEntry[] = [];
+    const formatText = () => prompt + header + formatEntries(entries, format) + epilogue;
+    let text = formatText();
+    let tokenCount = tokenizer.countTokens(text);
+
+    if (maxTokens > 0 && tokenCount > maxTokens) {
+        const entryTokenCounts = new Map(entries.map(entry => [entry, tokenizer.countTokens(format.formatEntry(entry))]));
+        const entriesBySize = [...entries].sort((a, b) => entryTokenCounts.get(b)! - entryTokenCounts.get(a)!);
+        const choice = handleOverBudget ? await handleOverBudget(tokenCount, maxTokens, entriesBySize, entryTokenCounts) : 'trim';
+        if (choice === 'trim') {
+            droppedEntries = selectEntriesToDrop(entriesBySize, entryTokenCounts, tokenCount, maxTokens);
+            entries = entries.filter(entry => !droppedEntries.includes(entry));
+            header = await buildHeader(entries);
+            text = formatText();
+            tokenCount = tokenizer.countTokens(text);
+        } else if (choice !== 'copyAnyway') {
+            return undefined;
+        }
+    }
+
+    // The header is redacted once it is final, so secrets are not counted again when it is rebuilt
+    const redactedHeader = redactText(header, 'header', redaction);
+    if (redactedHeader !== header) {
+        header = redactedHeader;
+        text = formatText();
+        tokenCount = tokenizer.countTokens(text);
+    }
+
+    return {
+        text,
+        tokenCount,
+        prompt,
+        header,
+        epilogue,
+        entries,
+        droppedEntries,
+        refusedEntries: redaction.refusedEntries,
+        redactionWarning: describeRedactions(redaction),
+    };
+}
+
+/**
+ * Formats a payload without dialogs or side effects: outlines, redacts and formats the entries and, when the content
+ * exceeds the token budget, drops the largest entries until it fits.
+ * @param payload The prompt and entries.
+ * @param options Format and token budget overrides.
+ */
+export async function renderPayload(payload: CopyPayload, options: Pick<WriteOptions, 'format' | 'maxTokens'> = {}): Promise<RenderedPayload> {
+    return (await renderPayloadWith(payload, options))!;
+}
+
+/**
+ * Outlines entries according to 'llmCopier.compressionMode', redacts secrets in the payload, formats it, estimates its
+ * token count, enforces 'llmCopier.maxTokens' and writes it to the output target. A warning lists what the redaction
+ * masked or refused. When the budget is exceeded, asks the user whether to copy anyway or to drop the largest entries
+ * until the content fits; the "chunks" target skips the budget, since it splits the content instead. Paths of a copy
+ * spanning several workspace folders get the folder name.
+ * @param payload The prompt and entries to copy.
+ * @param target Overrides 'llmCopier.outputTarget' for this copy; "ask" lets the user choose.
+ * @param options Overrides of the format and token budget, and headless writing without dialogs.
+ * @returns The write result, or undefined if the user cancelled or nothing was left to copy (e.g. every file was refused).
+ */
+export async function writePayload(payload: CopyPayload, target?: OutputTarget | 'ask', options: WriteOptions = {}): Promise<WriteResult | undefined> {
+    const format = getOutputFormat(options.format);
+    const maxTokens = options.maxTokens ?? vscode.workspace.getConfiguration('llmCopier').get<number>('maxTokens', 0);
+
+    const outputTarget = options.headless ? resolveHeadlessOutputTarget(target, options.outputUri) : await resolveOutputTarget(target);
+    if (!outputTarget) {
+        return undefined;
+    }
+
+    const rendered = await renderPayloadWith(
+        payload,
+        { format: options.format, maxTokens: outputTarget === 'chunks' ? 0 : maxTokens },
+        options.headless ? undefined : askOverBudget
+    );
+    if (!rendered) {
+        return undefined;
+    }
+    if (rendered.redactionWarning) {
+        vscode.window.showWarningMessage(rendered.redactionWarning);
+    }
+    if (rendered.entries.length === 0 && payload.entries.length > 0) {
+        if (rendered.droppedEntries.length > 0) {
+            vscode.window.showWarningMessage('No file fits within llmCopier.maxTokens. Nothing was copied.');
+        }
+        return undefined;
+    }
+
+    const { text, tokenCount, entries, droppedEntries } = rendered;
+    const result: WriteResult = { tokenCount, droppedEntries, refusedEntries: rendered.refusedEntries, target: outputTarget };
+    const { extension, languageId } = getFormatFileType(format);
+    const saveFolder = getDefaultSaveFolder(entries);
+
+    if (outputTarget === 'clipboard') {
+        await vscode.env.clipboard.writeText(text);
+    } else if (outputTarget === 'untitled') {
+        const document = await vscode.workspace.openTextDocument({ content: text, language: languageId });
+        await vscode.window.showTextDocument(document);
+    } else if (outputTarget === 'file') {
+        const fileUri = options.outputUri ?? await vscode.window.showSaveDialog({
+            defaultUri: saveFolder && vscode.Uri.joinPath(saveFolder, `llm-context.${extension}`),
+            filters: { [format.id === 'markdown' ? 'Markdown' : extension.toUpperCase()]: [extension], 'Text': ['txt'] },
+            saveLabel: 'Save LLM Context',
+        });
+        if (!fileUri) {
+            return undefined;
+        }
+        await vscode.workspace.fs.writeFile(fileUri, Buffer.from(text, 'utf8'));
+        result.location = fileUri;
+    } else {
+        const folders = options.outputUri ? [options.outputUri] : await vscode.window.showOpenDialog({
+            defaultUri: saveFolder,
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: 'Save Chunks Here',
+        });
+        if (!folders || folders.length === 0) {
+            return undefined;
+        }
+        const chunks = splitIntoChunks(rendered.prompt + rendered.header, entries, rendered.epilogue, format);
+        const digits = Math.max(2, String(chunks.length).length);
+        for (let i = 0; i < chunks.length; i++) {
+            const chunkName = `llm-context-part-${String(i + 1).padStart(digits, '0')}-of-${chunks.length}.${extension}`;
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folders[0], chunkName), Buffer.from(chunks[i], 'utf8'));
+        }
+        result.location = folders[0];
+        result.chunkCount = chunks.length;
+    }
+
+    updateTokenStatusBar(tokenCount, maxTokens);
+    writtenPayloadEmitter.fire({ payload, result, rendered });
+    return result;
+}
+
+/**
+ * Describes where the content went, for inclusion in a success message.
+ * @returns A string like "to clipboard", "to /tmp/llm-context.md" or "into 3 chunk files in /tmp".
+ */
+export function describeWriteTarget(result: WriteResult): string {
+    switch (result.target) {
+        case 'file':
+            return `to ${result.location?.fsPath}`;
+        case 'chunks':
+            return `into ${result.chunkCount} chunk file${result.chunkCount === 1 ? '' : 's'} in ${result.location?.fsPath}`;
+        case 'untitled':
+            return 'to a new editor';
+        default:
+            return 'to clipboard';
+    }
+}
+
+/**
+ * Describes the token count and any dropped or refused files for inclusion in a success message.
+ * @returns A string like "(~12.3k tokens; dropped 2 files to fit the token budget)".
+ */
+export function describeWriteResult(result: WriteResult): string {
+    const notes = [`~${formatTokenCount(result.tokenCount)} tokens`];
+    const dropped = result.droppedEntries.length;
+    if (dropped > 0) {
+        notes.push(`dropped ${dropped} file${dropped > 1 ? 's' : ''} to fit the token budget`);
+    }
+    const refused = result.refusedEntries.length;
+    if (refused > 0) {
+        notes.push(`refused ${refused} file${refused > 1 ? 's' : ''} on the secret denylist`);
+    }
+    return `(${notes.join('; ')})`;
+}
@@ -0,0 +1,471 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getWorkspaceRootForUri } from './fileUtils';
+import { getCurrentBranch } from './gitUtils';
+import { getSelectedBundlePath, onDidChangeSelectedBundlePath } from './bundles';
+
+/**
+ * 'llmCopier.rootSyncFolder' value that follows the workspace folder of the active editor.
+ */
+export const FOLLOW_ACTIVE_EDITOR = '${activeEditor}';
+
+export type SyncFormat = 'json' | 'ini' | 'toml' | 'yaml';
+
+type SyncTrigger = 'workspace' | 'activeEditor' | 'bundleSelection' | 'config';
+
+/**
+ * One external tool config file kept in sync, from 'llmCopier.syncTargets'.
+ */
+interface SyncTarget {
+    /** Path of the config file; relative paths are resolved against the first workspace folder. */
+    file: string;
+    /** File format; inferred from the file extension when omitted. */
+    format?: SyncFormat;
+    /**
+     * Keys to write, mapped to values that may reference ${workspaceRoot}, ${activeFile}, ${bundlePath}
+     * and ${gitBranch}. Dotted keys address sections (INI), tables (TOML) or nested objects (JSON, YAML).
+     */
+    values: Record<string, string>;
+}
+
+/**
+ * A key path and the value written to it.
+ */
+export type SyncUpdate = { keyPath: string[]; value: string };
+
+const VARIABLE_PATTERN = /\$\{(workspaceRoot|activeFile|bundlePath|gitBranch)\}/g;
+
+/**
+ * Last error shown per target file, so automatic syncs report a failing file once rather than on every editor switch.
+ */
+const reportedErrors = new Map<string, string>();
+
+/**
+ * Serializes the syncs, so triggers firing close together never write the same file concurrently.
+ */
+let syncQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Resolves the folder to sync from 'llmCopier.rootSyncFolder': a workspace folder name, "${activeEditor}"
+ * for the workspace folder of the active editor, or empty for the first workspace folder.
+ * @returns The folder path (empty if there is no workspace), or undefined if the active editor is not in a workspace folder.
+ */
+function getRootSyncFolder(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const rootSyncFolder = vscode.workspace.getConfiguration('llmCopier').get<string>('rootSyncFolder', '');
+    if (rootSyncFolder === FOLLOW_ACTIVE_EDITOR) {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        return activeUri && activeUri.scheme === 'file' ? getWorkspaceRootForUri(activeUri)?.fsPath : undefined;
+    }
+    const namedFolder = rootSyncFolder ? workspaceFolders.find(folder => folder.name === rootSyncFolder) : undefined;
+    if (rootSyncFolder && !namedFolder) {
+        console.warn(`[ConfigSync] Workspace folder "${rootSyncFolder}" from llmCopier.rootSyncFolder not found, using the first folder.`);
+    }
+    return (namedFolder ?? workspaceFolders[0])?.uri.fsPath ?? '';
+}
+
+/**
+ * Infers the format of a config file from its extension; unknown extensions are treated as JSON.
+ */
+export function inferSyncFormat(filePath: string): SyncFormat {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.ini':
+        case '.cfg':
+        case '.conf':
+            return 'ini';
+        case '.toml':
+            return 'toml';
+        case '.yaml':
+        case '.yml':
+            return 'yaml';
+        default:
+            return 'json';
+    }
+}
+
+/**
+ * Reads 'llmCopier.syncTargets', plus the legacy 'llmCopier.autoApplyConfigFile' target that receives
+ * the workspace root as `root_folder` (under `[Settings]` for an INI file).
+ */
+function getSyncTargets(): SyncTarget[] {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const targets = config.get<SyncTarget[]>('syncTargets', []).filter(target => target && target.file && target.values);
+    const autoApplyConfigFile = config.get<string>('autoApplyConfigFile');
+    if (autoApplyConfigFile) {
+        const key = inferSyncFormat(autoApplyConfigFile) === 'ini' ? 'Settings.root_folder' : 'root_folder';
+        targets.unshift({ file: autoApplyConfigFile, values: { [key]: '${workspaceRoot}' } });
+    }
+    return targets;
+}
+
+/**
+ * Resolves a target file path; relative paths are taken from the first workspace folder.
+ */
+function resolveTargetPath(file: string): string {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    return path.isAbsolute(file) || workspaceFolders.length === 0 ? path.resolve(file) : path.resolve(workspaceFolders[0].uri.fsPath, file);
+}
+
+/**
+ * Computes the values of the sync variables that are referenced by the targets.
+ * @returns The variable values; a variable without a value (e.g. ${activeFile} with no editor) is missing.
+ */
+async function resolveSyncVariables(targets: SyncTarget[]): Promise<Map<string, string>> {
+    const referenced = new Set<string>();
+    for (const target of targets) {
+        for (const value of Object.values(target.values)) {
+            for (const match of String(value).matchAll(VARIABLE_PATTERN)) {
+                referenced.add(match[1]);
+            }
+        }
+    }
+
+    const variables = new Map<string, string>();
+    const workspaceRoot = getRootSyncFolder();
+    if (workspaceRoot !== undefined) {
+        variables.set('workspaceRoot', workspaceRoot);
+    }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    if (activeUri && activeUri.scheme === 'file') {
+        variables.set('activeFile', activeUri.fsPath);
+    }
+    const bundlePath = getSelectedBundlePath();
+    if (bundlePath) {
+        variables.set('bundlePath', bundlePath);
+    }
+    if (referenced.has('gitBranch') && workspaceRoot) {
+        const branch = await getCurrentBranch(workspaceRoot);
+        if (branch) {
+            variables.set('gitBranch', branch);
+        }
+    }
+    return variables;
+}
+
+/**
+ * Substitutes the variables in a configured value.
+ * @returns The value, or undefined if it references a variable that has no value.
+ */
+function expandSyncValue(value: string, variables: Map<string, string>): string | undefined {
+    let missing = false;
+    const expanded = String(value).replace(VARIABLE_PATTERN, (_match, name: string) => {
+        const variable = variables.get(name);
+        if (variable === undefined) {
+            missing = true;
+            return '';
+        }
+        return variable;
+    });
+    return missing ? undefined : expanded;
+}
+
+function getLineEnding(content: string): string {
+    return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Index after the last non-blank line of [start, end), where new lines are inserted at the end of a section.
+ */
+function findInsertIndex(lines: string[], start: number, end: number): number {
+    let index = end;
+    while (index > start && !lines[index - 1].trim()) {
+        index--;
+    }
+    return index;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function updateJson(content: string, updates: SyncUpdate[]): string {
+    const data = content.trim() ? JSON.parse(content) : {};
+    for (const { keyPath, value } of updates) {
+        let node = data;
+        for (const key of keyPath.slice(0, -1)) {
+            if (typeof node[key] !== 'object' || node[key] === null || Array.isArray(node[key])) {
+                node[key] = {};
+            }
+            node = node[key];
+        }
+        node[keyPath[keyPath.length - 1]] = value;
+    }
+    return JSON.stringify(data, null, 2) + (content.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * Updates `key = value` lines of an INI or TOML file in place, keeping comments and unrelated lines.
+ * The last key segment is the key, the others form the section name (none for top-level keys).
+ */
+function updateSectionedFile(content: string, updates: SyncUpdate[], format: 'ini' | 'toml'): string {
+    const eol = getLineEnding(content);
+    const lines = content ? content.split(/\r?\n/) : [];
+    const hadTrailingNewline = lines.length > 0 && lines[lines.length - 1] === '';
+    if (hadTrailingNewline) {
+        lines.pop();
+    }
+
+    // [name] headers; TOML [[array]] headers are kept apart so they never match a section
+    const headerPattern = /^\s*\[(\[?)\s*([^\]]+?)\s*\]\]?\s*(?:[;#].*)?$/;
+    const getSectionName = (line: string) => {
+        const match = headerPattern.exec(line);
+        return match ? (match[1] ? `[[${match[2]}]]` : match[2]) : undefined;
+    };
+
+    for (const { keyPath, value } of updates) {
+        const section = keyPath.slice(0, -1).join('.');
+        const key = keyPath[keyPath.length - 1];
+        const valueText = format === 'toml' ? JSON.stringify(value) : value;
+
+        let start = 0;
+        if (section) {
+            const headerIndex = lines.findIndex(line => getSectionName(line) === section);
+            if (headerIndex === -1) {
+                if (lines.length > 0 && lines[lines.length - 1].trim()) {
+                    lines.push('');
+                }
+                lines.push(`[${section}]`, `${key} = ${valueText}`);
+                continue;
+            }
+            start = headerIndex + 1;
+        }
+        let end = lines.findIndex((line, index) => index >= start && getSectionName(line) !== undefined);
+        if (end === -1) {
+            end = lines.length;
+        }
+
+        const keyPattern = new RegExp(`^(\\s*${escapeRegExp(key)}\\s*${format === 'ini' ? '[=:]' : '='}\\s*).*$`);
+        const keyIndex = lines.findIndex((line, index) => index >= start && index < end && keyPattern.test(line));
+        if (keyIndex !== -1) {
+            lines[keyIndex] = lines[keyIndex].replace(keyPattern, (_match, prefix: string) => prefix + valueText);
+        } else {
+            lines.splice(findInsertIndex(lines, start, end), 0, `${key} = ${valueText}`);
+        }
+    }
+
+    return lines.join(eol) + (hadTrailingNewline || !content ? eol : '');
+}
+
+/**
+ * Updates scalar keys of a YAML block mapping in place, creating the missing parent mappings.
+ * Only plain nested mappings are supported; values are written as double-quoted strings.
+ */
+function updateYaml(content: string, updates: SyncUpdate[]): string {
+    const eol = getLineEnding(content);
+    const lines = content ? content.split(/\r?\n/) : [];
+    const hadTrailingNewline = lines.length > 0 && lines[lines.length - 1] === '';
+    if (hadTrailingNewline) {
+        lines.pop();
+    }
+
+    const isContent = (line: string) => line.trim() !== '' && !line.trim().startsWith('#') && line.trim() !== '---';
+    const getIndent = (line: string) => line.length - line.trimStart().length;
+
+    for (const { keyPath, value } of updates) {
+        let start = 0;
+        let end = lines.length;
+        let parentIndent = -1;
+
+        for (let depth = 0; depth < keyPath.length; depth++) {
+            const key = keyPath[depth];
+            const firstChild = lines.slice(start, end).find(line => isContent(line) && getIndent(line) > parentIndent);
+            const indent = firstChild !== undefined ? getIndent(firstChild) : parentIndent + (parentIndent < 0 ? 1 : 2);
+            const keyPattern = new RegExp(`^\\s*(["']?)${escapeRegExp(key)}\\1\\s*:(\\s|$)`);
+            const keyIndex = lines.findIndex((line, index) => index >= start && index < end && isContent(line) && getIndent(line) === indent && keyPattern.test(line));
+
+            if (keyIndex === -1) {
+                const newLines = keyPath.slice(depth).map((missingKey, offset) => {
+                    const prefix = ' '.repeat(indent + 2 * offset) + `${missingKey}:`;
+                    return depth + offset === keyPath.length - 1 ? `${prefix} ${JSON.stringify(value)}` : prefix;
+                });
+                lines.splice(findInsertIndex(lines, start, end), 0, ...newLines);
+                break;
+            }
+            if (depth === keyPath.length - 1) {
+                lines[keyIndex] = `${' '.repeat(indent)}${key}: ${JSON.stringify(value)}`;
+                break;
+            }
+
+            start = keyIndex + 1;
+            const nextSibling = lines.findIndex((line, index) => index >= start && index < end && isContent(line) && getIndent(line) <= indent);
+            end = nextSibling === -1 ? end : nextSibling;
+            parentIndent = indent;
+        }
+    }
+
+    return lines.join(eol) + (hadTrailingNewline || !content ? eol : '');
+}
+
+/**
+ * Applies the updates to the text of a config file, keeping everything else (INI, TOML and YAML comments
+ * and layout included; JSON is re-serialized with 2-space indentation).
+ * @param content The current file content; empty for a new file.
+ * @param format The file format.
+ * @param updates The keys to set.
+ * @returns The updated content.
+ */
+export function applySyncUpdates(content: string, format: SyncFormat, updates: SyncUpdate[]): string {
+    switch (format) {
+        case 'ini':
+        case 'toml':
+            return updateSectionedFile(content, updates, format);
+        case 'yaml':
+            return updateYaml(content, updates);
+        default:
+            return updateJson(content, updates);
+    }
+}
+
+/**
+ * Replaces the file through a temporary file and a rename, so readers never see a half-written config.
+ * If 'llmCopier.syncBackup' is enabled, the previous content is kept next to it as "<file>.bak".
+ */
+async function writeFileAtomically(filePath: string, content: string, previousContent: string | undefined): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (previousContent !== undefined && vscode.workspace.getConfiguration('llmCopier').get<boolean>('syncBackup', true)) {
+        await fs.promises.writeFile(`${filePath}.bak`, previousContent, 'utf8');
+    }
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+        await fs.promises.writeFile(tempPath, content, 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Writes the configured values into one target file.
+ * @returns Whether the file changed.
+ */
+async function syncTarget(target: SyncTarget, variables: Map<string, string>): Promise<boolean> {
+    const filePath = resolveTargetPath(target.file);
+    const format = target.format ?? inferSyncFormat(filePath);
+
+    const updates: SyncUpdate[] = [];
+    for (const [key, value] of Object.entries(target.values)) {
+        const expanded = expandSyncValue(value, variables);
+        // Keys whose variables have no value right now are left unchanged
+        if (expanded === undefined) {
+            continue;
+        }
+        updates.push({ keyPath: key.split('.').filter(Boolean), value: expanded });
+    }
+    if (updates.length === 0) {
+        return false;
+    }
+
+    let previousContent: string | undefined;
+    try {
+        previousContent = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+    }
+
+    const content = applySyncUpdates(previousContent ?? '', format, updates);
+    if (content === previousContent) {
+        return false;
+    }
+    await writeFileAtomically(filePath, content, previousContent);
+    return true;
+}
+
+/**
+ * Writes the configured values into every sync target.
+ * @param interactive Whether the user asked for the sync; automatic syncs only report failures, once per file.
+ */
+async function syncAllTargets(interactive: boolean): Promise<void> {
+    const targets = getSyncTargets();
+    if (targets.length === 0) {
+        if (interactive) {
+            vscode.window.showWarningMessage('No config sync targets: set llmCopier.syncTargets or llmCopier.autoApplyConfigFile.');
+        }
+        return;
+    }
+
+    const variables = await resolveSyncVariables(targets);
+    const updatedFiles: string[] = [];
+    for (const target of targets) {
+        const filePath = resolveTargetPath(target.file);
+        try {
+            if (await syncTarget(target, variables)) {
+                updatedFiles.push(filePath);
+            }
+            reportedErrors.delete(filePath);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[ConfigSync] Failed to sync ${filePath}:`, error);
+            if (interactive || reportedErrors.get(filePath) !== message) {
+                reportedErrors.set(filePath, message);
+                vscode.window.showErrorMessage(`Failed to sync config file ${filePath}: ${message}`);
+            }
+        }
+    }
+
+    if (interactive) {
+        vscode.window.showInformationMessage(updatedFiles.length > 0
+            ? `Config sync updated ${updatedFiles.join(', ')}.`
+            : 'Config sync: all target files are already up-to-date.');
+    }
+}
+
+function scheduleSync(trigger: SyncTrigger | undefined): Promise<void> {
+    if (trigger && !vscode.workspace.getConfiguration('llmCopier').get<SyncTrigger[]>('syncTriggers', []).includes(trigger)) {
+        return syncQueue;
+    }
+    syncQueue = syncQueue
+        .then(() => syncAllTargets(trigger === undefined))
+        .catch(error => console.error(`[ConfigSync] Failed to sync the config files: ${error}`));
+    return syncQueue;
+}
+
+/**
+ * Keeps external tool config files (such as AutoCodeApplier's) in sync with the workspace, according to
+ * 'llmCopier.syncTargets' and 'llmCopier.syncTriggers', and registers the command that syncs on demand.
+ * @param context The extension context.
+ */
+export function registerConfigSync(context: vscode.ExtensionContext): void {
+    scheduleSync('workspace');
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => scheduleSync('workspace')),
+
+        vscode.window.onDidChangeActiveTextEditor(() => scheduleSync('activeEditor')),
+
+        onDidChangeSelectedBundlePath(() => scheduleSync('bundleSelection')),
+
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (['syncTargets', 'autoApplyConfigFile', 'rootSyncFolder'].some(setting => e.affectsConfiguration(`llmCopier.${setting}`))) {
+                scheduleSync('config');
+            }
+        }),
+
+        // In a multi-root workspace, the user first picks the folder used for ${workspaceRoot} (stored in 'llmCopier.rootSyncFolder')
+        vscode.commands.registerCommand('llmCopier.updateRootFolderConfig', async () => {
+            const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+            if (workspaceFolders.length > 1) {
+                const config = vscode.workspace.getConfiguration('llmCopier');
+                const current = config.get<string>('rootSyncFolder', '');
+                const items = [
+                    ...workspaceFolders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, value: folder.name })),
+                    { label: '$(go-to-file) Follow Active Editor', description: 'Sync the workspace folder of the active editor', value: FOLLOW_ACTIVE_EDITOR },
+                ];
+                const choice = await vscode.window.showQuickPick(
+                    items.map(item => ({ ...item, picked: item.value === current })),
+                    { placeHolder: 'Choose the workspace folder synced as ${workspaceRoot}' }
+                );
+                if (!choice) {
+                    return;
+                }
+                if (choice.value !== current) {
+                    await config.update('rootSyncFolder', choice.value, vscode.ConfigurationTarget.Workspace);
+                }
+            }
+            await scheduleSync(undefined);
+        })
+    );
+}
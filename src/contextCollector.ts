@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isLikelyBinary, createContentEntry, readTextFile, SkipSummary, recordSkip } from './fileUtils';
+import { IgnoreFilter, createIgnoreFilter } from './ignoreRules';
+import { ContentEntry } from './outputFormats';
+
+/**
+ * Recursively reads files within a folder into content entries.
+ * Skips entries excluded by the ignore rules, and binary files based on content inspection.
+ * @param folderUri The URI of the folder to read.
+ * @param ignoreFilter The filter deciding which files and subfolders to skip.
+ * @param skipSummary Collects the ignored, binary and unreadable entries and why they were skipped.
+ * @returns A promise that resolves to an array of file content entries.
+ */
+export async function readFolderRecursively(folderUri: vscode.Uri, ignoreFilter: IgnoreFilter, skipSummary: SkipSummary): Promise<ContentEntry[]> {
+    let contents: ContentEntry[] = [];
+    try {
+        const entries = await vscode.workspace.fs.readDirectory(folderUri);
+
+        for (const [name, type] of entries) {
+            const entryUri = vscode.Uri.joinPath(folderUri, name);
+            
+            if (name === 'prompt.txt' && entryUri.fsPath === path.join(folderUri.fsPath, 'prompt.txt')) {
+                continue; 
+            }
+
+            const excludingRule = await ignoreFilter.getExcludingRule(entryUri, type === vscode.FileType.Directory);
+            if (excludingRule) {
+                console.log(`Skipping ignored entry during recursive copy: ${entryUri.fsPath} (${excludingRule})`);
+                recordSkip(skipSummary, excludingRule, entryUri);
+                continue;
+            }
+
+            if (type === vscode.FileType.File) {
+                if (await isLikelyBinary(entryUri)) {
+                    console.log(`Skipping binary file during recursive copy: ${entryUri.fsPath}`);
+                    recordSkip(skipSummary, 'binary file', entryUri);
+                    continue;
+                }
+                try {
+                    const fileContent = await readTextFile(entryUri, skipSummary);
+                    if (fileContent !== undefined) {
+                        contents.push(createContentEntry(entryUri, fileContent));
+                    }
+                } catch (fileReadError) {
+                    console.error(`Failed to read file ${entryUri.fsPath}: ${fileReadError}`);
+                    recordSkip(skipSummary, 'unreadable file', entryUri);
+                }
+            } else if (type === vscode.FileType.Directory) {
+                contents.push(...await readFolderRecursively(entryUri, ignoreFilter, skipSummary));
+            }
+        }
+    } catch (dirReadError) {
+        console.error(`Failed to read directory ${folderUri.fsPath}: ${dirReadError}`);
+        vscode.window.showErrorMessage(`Could not read directory ${path.basename(folderUri.fsPath)}. Check permissions.`);
+    }
+    return contents;
+}
+
+/**
+ * Something to collect entries from: a file or folder, a file's line range (zero-based, inclusive), or a glob pattern
+ * matched with `vscode.workspace.findFiles` in every workspace folder.
+ */
+export type ContextSource =
+    | { uri: vscode.Uri; range?: { startLine: number; endLine: number } }
+    | { glob: string };
+
+/**
+ * Collects the entries of files, folders, line ranges and glob patterns, in the order given, for copies requested
+ * through the API, the URI handler, command arguments or a bundle. Selected files, folders and line ranges are always
+ * included, while the contents of folders and glob matches honor the ignore rules. Binary files are skipped and every
+ * whole file is included once.
+ * @param sources The files, folders, line ranges and glob patterns.
+ * @param skipSummary Collects the ignored, binary, missing and unreadable entries and why they were skipped.
+ */
+export async function collectEntries(sources: ContextSource[], skipSummary: SkipSummary): Promise<ContentEntry[]> {
+    const ignoreFilter = createIgnoreFilter();
+    const entries: ContentEntry[] = [];
+    const copiedPaths = new Set<string>();
+
+    async function addFile(fileUri: vscode.Uri): Promise<void> {
+        if (copiedPaths.has(fileUri.fsPath)) {
+            return;
+        }
+        copiedPaths.add(fileUri.fsPath);
+        if (await isLikelyBinary(fileUri)) {
+            recordSkip(skipSummary, 'binary file', fileUri);
+            return;
+        }
+        try {
+            const fileContent = await readTextFile(fileUri, skipSummary);
+            if (fileContent !== undefined) {
+                entries.push(createContentEntry(fileUri, fileContent));
+            }
+        } catch (error) {
+            console.error(`Failed to read file ${fileUri.fsPath}: ${error}`);
+            recordSkip(skipSummary, 'unreadable file', fileUri);
+        }
+    }
+
+    async function addRange(fileUri: vscode.Uri, range: { startLine: number; endLine: number }): Promise<void> {
+        const lines = `${range.startLine + 1}-${range.endLine + 1}`;
+        try {
+            const document = await vscode.workspace.openTextDocument(fileUri);
+            const text = document.getText(document.validateRange(new vscode.Range(range.startLine, 0, range.endLine, Number.MAX_SAFE_INTEGER)));
+            const entry = createContentEntry(fileUri, text, document.languageId);
+            entries.push({ ...entry, path: `${entry.path}:${lines}`, partial: true });
+        } catch (error) {
+            console.error(`Failed to read lines ${lines} of ${fileUri.fsPath}: ${error}`);
+            recordSkip(skipSummary, 'unreadable file', fileUri);
+        }
+    }
+
+    for (const source of sources) {
+        if ('glob' in source) {
+            for (const fileUri of await vscode.workspace.findFiles(source.glob)) {
+                const excludingRule = await ignoreFilter.getExcludingRule(fileUri, false);
+                if (excludingRule) {
+                    recordSkip(skipSummary, excludingRule, fileUri);
+                } else {
+                    await addFile(fileUri);
+                }
+            }
+            continue;
+        }
+        if (source.range) {
+            await addRange(source.uri, source.range);
+            continue;
+        }
+
+        let stat: vscode.FileStat;
+        try {
+            stat = await vscode.workspace.fs.stat(source.uri);
+        } catch (error) {
+            console.error(`Could not access ${source.uri.fsPath}: ${error}`);
+            recordSkip(skipSummary, 'not found', source.uri);
+            continue;
+        }
+        if (stat.type & vscode.FileType.Directory) {
+            ignoreFilter.includeSelectedFolder(source.uri);
+            const folderEntries = await readFolderRecursively(source.uri, ignoreFilter, skipSummary);
+            entries.push(...folderEntries.filter(entry => !copiedPaths.has(entry.uri!.fsPath)));
+            folderEntries.forEach(entry => copiedPaths.add(entry.uri!.fsPath));
+        } else {
+            await addFile(source.uri);
+        }
+    }
+    return entries;
+}
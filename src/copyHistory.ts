@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ContentEntry } from './outputFormats';
+import { WrittenPayload, onDidWritePayload, writePayload, describeWriteResult, describeWriteTarget } from './clipboardWriter';
+import { readTextFile, SkipSummary, createSkipSummary, recordSkip, showMessageWithSkipReport } from './fileUtils';
+import { getPromptContent } from './prompts';
+import { maskSecrets, redactEntries } from './redaction';
+import { formatTokenCount } from './tokenizer';
+import { createUnifiedDiff } from './unifiedDiff';
+
+/**
+ * A copied entry as recorded in the history. The content is kept in the snapshot folder under its hash.
+ */
+interface HistoryEntry {
+    path: string;
+    language: string;
+    /** The source file, as a URI string, if the entry comes from one. */
+    uri?: string;
+    partial?: boolean;
+    fullContent?: boolean;
+    note?: string;
+    /** SHA-256 of the copied content, after redaction. */
+    hash: string;
+}
+
+/**
+ * One copy in the history, newest first in workspace state.
+ */
+interface CopyHistoryRecord {
+    /** Milliseconds since the epoch. */
+    timestamp: number;
+    /** The command that made the copy, e.g. "Copy Folder Content". */
+    command: string;
+    /** The prompt, epilogue and header as written, after redaction. */
+    prompt: string;
+    epilogue: string;
+    header?: string;
+    entries: HistoryEntry[];
+    tokenCount: number;
+}
+
+const HISTORY_STATE_KEY = 'llmCopier.copyHistory';
+const SNAPSHOTS_FOLDER = 'copy-history';
+
+let recordQueue: Promise<void> = Promise.resolve();
+
+function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function getSnapshotsFolder(context: vscode.ExtensionContext): vscode.Uri {
+    return vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, SNAPSHOTS_FOLDER);
+}
+
+function loadHistory(context: vscode.ExtensionContext): CopyHistoryRecord[] {
+    return context.workspaceState.get<CopyHistoryRecord[]>(HISTORY_STATE_KEY, []);
+}
+
+/**
+ * Loads the history once the copies still being recorded are in it.
+ */
+async function loadRecordedHistory(context: vscode.ExtensionContext): Promise<CopyHistoryRecord[]> {
+    await recordQueue;
+    return loadHistory(context);
+}
+
+/**
+ * Whether the entry is a whole file that can be compared with the file's current content.
+ */
+function isWholeFileEntry(entry: HistoryEntry): entry is HistoryEntry & { uri: string } {
+    return !!entry.uri && !entry.partial;
+}
+
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Deletes the snapshots no longer referenced by any history record.
+ */
+async function pruneSnapshots(context: vscode.ExtensionContext, history: CopyHistoryRecord[]): Promise<void> {
+    const folder = getSnapshotsFolder(context);
+    const referencedNames = new Set(history.flatMap(record => record.entries.map(entry => `${entry.hash}.txt`)));
+    try {
+        for (const [name] of await vscode.workspace.fs.readDirectory(folder)) {
+            if (!referencedNames.has(name)) {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder, name));
+            }
+        }
+    } catch (error) {
+        console.error(`Failed to prune copy history snapshots in ${folder.fsPath}: ${error}`);
+    }
+}
+
+/**
+ * Records a written payload in the history, keeping at most 'llmCopier.historySize' copies. The collected entries are
+ * recorded before outlining, minus the files dropped or refused by the write. Secrets are masked as in the copy, so the
+ * history on disk and in workspace state holds nothing that was not copied.
+ */
+async function recordCopy(context: vscode.ExtensionContext, { payload, result, rendered }: WrittenPayload): Promise<void> {
+    const historySize = vscode.workspace.getConfiguration('llmCopier').get<number>('historySize', 50);
+    if (historySize <= 0) {
+        return;
+    }
+
+    const writtenUris = new Set(rendered.entries.flatMap(entry => entry.uri ? [entry.uri.toString()] : []));
+    const folder = getSnapshotsFolder(context);
+    await vscode.workspace.fs.createDirectory(folder);
+    const historyEntries: HistoryEntry[] = [];
+    const { entries } = redactEntries(payload.entries.filter(candidate => !candidate.uri || writtenUris.has(candidate.uri.toString())));
+    for (const entry of entries) {
+        const hash = hashContent(entry.content);
+        const snapshotUri = vscode.Uri.joinPath(folder, `${hash}.txt`);
+        try {
+            await vscode.workspace.fs.stat(snapshotUri);
+        } catch (error) {
+            await vscode.workspace.fs.writeFile(snapshotUri, Buffer.from(entry.content, 'utf8'));
+        }
+        historyEntries.push({ path: entry.path, language: entry.language, uri: entry.uri?.toString(), partial: entry.partial, fullContent: entry.fullContent, note: entry.note, hash });
+    }
+
+    const record: CopyHistoryRecord = {
+        timestamp: Date.now(),
+        command: payload.command ?? 'Copy',
+        prompt: rendered.prompt,
+        epilogue: rendered.epilogue,
+        header: rendered.header || undefined,
+        entries: historyEntries,
+        tokenCount: result.tokenCount,
+    };
+    const history = [record, ...loadHistory(context)].slice(0, historySize);
+    await context.workspaceState.update(HISTORY_STATE_KEY, history);
+    await pruneSnapshots(context, history);
+}
+
+/**
+ * Reads the content of an entry as it was copied.
+ * @returns The content, or undefined if the snapshot is missing.
+ */
+async function readSnapshot(context: vscode.ExtensionContext, entry: HistoryEntry): Promise<string | undefined> {
+    // Snapshots are written as UTF-8 by recordCopy, whatever the encoding of the copied file
+    try {
+        return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(getSnapshotsFolder(context), `${entry.hash}.txt`))).toString('utf8');
+    } catch (error) {
+        console.error(`Missing copy history snapshot for ${entry.path}: ${error}`);
+        return undefined;
+    }
+}
+
+/**
+ * Reads the current content of a recorded file: the open document's text, otherwise the file on disk.
+ * @returns The content, "deleted" if the file no longer exists, or undefined if it was skipped or could not be read.
+ */
+async function readCurrentContent(uri: vscode.Uri, skipSummary: SkipSummary): Promise<string | 'deleted' | undefined> {
+    const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.toString() === uri.toString());
+    if (document) {
+        return document.getText();
+    }
+    try {
+        return await readTextFile(uri, skipSummary);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return 'deleted';
+        }
+        console.error(`Failed to read ${uri.fsPath}: ${error}`);
+        recordSkip(skipSummary, 'unreadable file', uri);
+        return undefined;
+    }
+}
+
+/**
+ * Copies the recorded payload again, with the current content of whole files and the recorded content of
+ * selections, snippets and other entries. The recorded prompt and header are reused.
+ */
+async function recopy(context: vscode.ExtensionContext, record: CopyHistoryRecord): Promise<void> {
+    const skipSummary = createSkipSummary();
+    const entries: ContentEntry[] = [];
+    for (const historyEntry of record.entries) {
+        const uri = historyEntry.uri ? vscode.Uri.parse(historyEntry.uri) : undefined;
+        const content = uri && isWholeFileEntry(historyEntry)
+            ? await readCurrentContent(uri, skipSummary)
+            : await readSnapshot(context, historyEntry);
+        if (content === 'deleted') {
+            recordSkip(skipSummary, 'deleted since the copy', uri);
+        } else if (content === undefined) {
+            if (!uri || !isWholeFileEntry(historyEntry)) {
+                recordSkip(skipSummary, 'missing from the history', uri);
+            }
+        } else {
+            entries.push({ path: historyEntry.path, language: historyEntry.language, content, uri, partial: historyEntry.partial, fullContent: historyEntry.fullContent, note: historyEntry.note });
+        }
+    }
+    if (entries.length === 0) {
+        showMessageWithSkipReport('Nothing left to re-copy.', skipSummary);
+        return;
+    }
+
+    const writeResult = await writePayload({
+        prompt: record.prompt,
+        epilogue: record.epilogue,
+        header: record.header,
+        entries,
+        command: `Re-copy: ${record.command}`,
+    });
+    if (writeResult) {
+        showMessageWithSkipReport(`Re-copied "${record.command}" with current contents ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+    }
+}
+
+/**
+ * Copies the current content of the recorded whole files that changed since the copy.
+ */
+async function copyChangedFilesSince(record: CopyHistoryRecord): Promise<void> {
+    const skipSummary = createSkipSummary();
+    const entries: ContentEntry[] = [];
+    let unchangedCount = 0;
+    for (const historyEntry of record.entries.filter(isWholeFileEntry)) {
+        const uri = vscode.Uri.parse(historyEntry.uri);
+        const content = await readCurrentContent(uri, skipSummary);
+        if (content === 'deleted') {
+            recordSkip(skipSummary, 'deleted since the copy', uri);
+        } else if (content !== undefined && hashContent(maskSecrets(content)) === historyEntry.hash) {
+            unchangedCount++;
+        } else if (content !== undefined) {
+            entries.push({ path: historyEntry.path, language: historyEntry.language, content, uri });
+        }
+    }
+    const since = formatTimestamp(record.timestamp);
+    if (entries.length === 0) {
+        showMessageWithSkipReport(`No files changed since the copy of ${since}.`, skipSummary);
+        return;
+    }
+
+    const promptContent = await getPromptContent(entries);
+    if (!promptContent) {
+        return;
+    }
+    const writeResult = await writePayload({ ...promptContent, entries, command: `Copy Changed Files Since ${since}` });
+    if (writeResult) {
+        const copiedCount = entries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+        showMessageWithSkipReport(`Copied ${copiedCount} file${copiedCount === 1 ? '' : 's'} changed since ${since} (${unchangedCount} unchanged) ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+    }
+}
+
+/**
+ * Copies unified diffs of the recorded whole files against their content at the time of the copy, with secrets masked
+ * on both sides. Deleted files are diffed against /dev/null.
+ */
+async function copyDiffSince(context: vscode.ExtensionContext, record: CopyHistoryRecord): Promise<void> {
+    const skipSummary = createSkipSummary();
+    const diffs: string[] = [];
+    for (const historyEntry of record.entries.filter(isWholeFileEntry)) {
+        const uri = vscode.Uri.parse(historyEntry.uri);
+        const currentContent = await readCurrentContent(uri, skipSummary);
+        const content = currentContent === 'deleted' || currentContent === undefined ? currentContent : maskSecrets(currentContent);
+        if (content === undefined || (content !== 'deleted' && hashContent(content) === historyEntry.hash)) {
+            continue;
+        }
+        const copiedContent = await readSnapshot(context, historyEntry);
+        if (copiedContent === undefined) {
+            recordSkip(skipSummary, 'missing from the history', uri);
+            continue;
+        }
+        const newPath = content === 'deleted' ? '/dev/null' : `b/${historyEntry.path}`;
+        diffs.push(createUnifiedDiff(`a/${historyEntry.path}`, newPath, copiedContent, content === 'deleted' ? '' : content));
+    }
+    const since = formatTimestamp(record.timestamp);
+    if (diffs.length === 0) {
+        showMessageWithSkipReport(`No files changed since the copy of ${since}.`, skipSummary);
+        return;
+    }
+
+    const entries: ContentEntry[] = [{ path: `changes since ${since}`, language: 'diff', content: diffs.join('').replace(/\n$/, '') }];
+    const promptContent = await getPromptContent(entries);
+    if (!promptContent) {
+        return;
+    }
+    const writeResult = await writePayload({ ...promptContent, entries, command: `Copy Diff Since ${since}` });
+    if (writeResult) {
+        showMessageWithSkipReport(`Copied the changes of ${diffs.length} file${diffs.length === 1 ? '' : 's'} since ${since} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+    }
+}
+
+/**
+ * Asks the user to pick a copy from the history.
+ * @param wholeFilesOnly Offers only copies with whole files, which can be compared with the current files.
+ * @returns The record, or undefined if cancelled or the history is empty.
+ */
+async function pickHistoryRecord(context: vscode.ExtensionContext, placeHolder: string, wholeFilesOnly = false): Promise<CopyHistoryRecord | undefined> {
+    const history = (await loadRecordedHistory(context)).filter(record => !wholeFilesOnly || record.entries.some(isWholeFileEntry));
+    if (history.length === 0) {
+        vscode.window.showInformationMessage(wholeFilesOnly ? 'The copy history has no copies of whole files yet.' : 'The copy history is empty.');
+        return undefined;
+    }
+    const choice = await vscode.window.showQuickPick(
+        history.map(record => ({
+            label: record.command,
+            description: `${formatTimestamp(record.timestamp)} · ~${formatTokenCount(record.tokenCount)} tokens`,
+            detail: record.entries.map(entry => entry.path).join(', '),
+            record,
+        })),
+        { placeHolder, matchOnDetail: true }
+    );
+    return choice?.record;
+}
+
+/**
+ * The latest copy with whole files, the baseline of the "since last copy" commands.
+ */
+async function getLastWholeFileRecord(context: vscode.ExtensionContext): Promise<CopyHistoryRecord | undefined> {
+    const record = (await loadRecordedHistory(context)).find(candidate => candidate.entries.some(isWholeFileEntry));
+    if (!record) {
+        vscode.window.showInformationMessage('The copy history has no copies of whole files yet.');
+    }
+    return record;
+}
+
+/**
+ * Records every copy in the history and registers the commands that re-copy past payloads, or copy the files or diffs
+ * that changed since a past copy.
+ * @param context The extension context; the history is kept in workspace state and the copied contents in its storage folder.
+ */
+export function registerCopyHistory(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        onDidWritePayload(writtenPayload => {
+            recordQueue = recordQueue
+                .then(() => recordCopy(context, writtenPayload))
+                .catch(error => console.error(`Failed to record the copy history: ${error}`));
+        }),
+
+        vscode.commands.registerCommand('llmCopier.showCopyHistory', async () => {
+            const record = await pickHistoryRecord(context, 'Copy history');
+            if (!record) {
+                return;
+            }
+            const comparable = record.entries.some(isWholeFileEntry);
+            const actions = [
+                { label: '$(history) Re-copy With Current Contents', run: () => recopy(context, record) },
+                ...(comparable ? [
+                    { label: '$(files) Copy Files Changed Since This Copy', run: () => copyChangedFilesSince(record) },
+                    { label: '$(diff) Copy Diff Since This Copy', run: () => copyDiffSince(context, record) },
+                ] : []),
+            ];
+            const action = await vscode.window.showQuickPick(actions, { placeHolder: `${record.command} (${formatTimestamp(record.timestamp)})` });
+            await action?.run();
+        }),
+
+        vscode.commands.registerCommand('llmCopier.copyChangedFilesSinceLastCopy', async () => {
+            const record = await getLastWholeFileRecord(context);
+            if (record) {
+                await copyChangedFilesSince(record);
+            }
+        }),
+
+        vscode.commands.registerCommand('llmCopier.copyDiffSinceLastCopy', async () => {
+            const record = await getLastWholeFileRecord(context);
+            if (record) {
+                await copyDiffSince(context, record);
+            }
+        }),
+
+        vscode.commands.registerCommand('llmCopier.clearCopyHistory', async () => {
+            await recordQueue;
+            await context.workspaceState.update(HISTORY_STATE_KEY, []);
+            await pruneSnapshots(context, []);
+            vscode.window.showInformationMessage('Copy history cleared.');
+        })
+    );
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { ContentEntry } from './outputFormats';
+import { getTokenizer, formatTokenCount } from './tokenizer';
+import { formatByteSize } from './fileUtils';
+
+type ReviewItem = vscode.QuickPickItem & { entry: ContentEntry; tokenCount: number };
+
+/**
+ * Lets the user untick files before a copy, if 'llmCopier.reviewBeforeCopy' is enabled. Every candidate
+ * (already filtered by the ignore rules) is listed with its size, line count and estimated tokens, and
+ * the title shows the running total of the ticked files.
+ * @param entries The collected entries.
+ * @returns The entries to copy, in their original order, or undefined if the user cancelled the review.
+ */
+export async function reviewEntriesBeforeCopy(entries: ContentEntry[]): Promise<ContentEntry[] | undefined> {
+    if (!vscode.workspace.getConfiguration('llmCopier').get<boolean>('reviewBeforeCopy', false) || entries.length === 0) {
+        return entries;
+    }
+
+    const tokenizer = getTokenizer();
+    const items: ReviewItem[] = entries.map(entry => {
+        const tokenCount = tokenizer.countTokens(entry.content);
+        const lineCount = entry.content ? entry.content.split('\n').length : 0;
+        return {
+            label: entry.path,
+            description: `${formatByteSize(Buffer.byteLength(entry.content, 'utf8'))} · ${lineCount} line${lineCount === 1 ? '' : 's'} · ~${formatTokenCount(tokenCount)} tokens`,
+            detail: entry.note,
+            picked: true,
+            entry,
+            tokenCount,
+        };
+    });
+
+    const quickPick = vscode.window.createQuickPick<ReviewItem>();
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.placeholder = 'Untick the files to leave out, then press Enter to copy';
+    quickPick.items = items;
+    quickPick.selectedItems = items;
+
+    const updateTitle = () => {
+        const selected = quickPick.selectedItems;
+        const tokenCount = selected.reduce((sum, item) => sum + item.tokenCount, 0);
+        quickPick.title = `Review copy: ${selected.length} of ${items.length} files, ~${formatTokenCount(tokenCount)} tokens`;
+    };
+    updateTitle();
+
+    const selectedEntries = await new Promise<Set<ContentEntry> | undefined>(resolve => {
+        quickPick.onDidChangeSelection(updateTitle);
+        quickPick.onDidAccept(() => {
+            resolve(new Set(quickPick.selectedItems.map(item => item.entry)));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+
+    return selectedEntries && entries.filter(entry => selectedEntries.has(entry));
+}
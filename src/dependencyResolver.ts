@@ -0,0 +1,451 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getWorkspaceRootForUri, createContentEntry, isLikelyBinary, readTextFile, SkipSummary, recordSkip } from './fileUtils';
+import { IgnoreFilter } from './ignoreRules';
+
+/**
+ * A local file pulled into a copy because the copied file (or one of its dependencies) imports it.
+ */
+export interface ResolvedDependency {
+    uri: vscode.Uri;
+    /** Why the file was included, e.g. 'imported by src/app.ts as "./types"'. */
+    reason: string;
+    /** 1 for direct imports of the copied file, 2 for their imports, and so on. */
+    depth: number;
+}
+
+type ImportLanguage = 'javascript' | 'python' | 'go';
+
+/**
+ * An import found in a source file, before resolution.
+ */
+interface ImportReference {
+    specifier: string;
+    /** For Python `from x import a, b`: the imported names, which may be submodules. */
+    names?: string[];
+}
+
+/**
+ * `compilerOptions.paths` of a tsconfig.json or jsconfig.json, with the folder the mappings are relative to.
+ */
+interface PathMappings {
+    baseUrl?: string;
+    paths: Record<string, string[]>;
+    pathsBase: string;
+}
+
+/**
+ * The parts of a tsconfig.json or jsconfig.json read for path mappings. The file is user input,
+ * so every value is checked before use.
+ */
+interface TsConfigFile {
+    extends?: unknown;
+    compilerOptions?: {
+        baseUrl?: unknown;
+        paths?: unknown;
+    };
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/** ESM imports name the emitted file ("./util.js") while the source is TypeScript ("./util.ts"). */
+const EMITTED_TO_SOURCE_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts'],
+};
+
+function getImportLanguage(filePath: string): ImportLanguage | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'].includes(extension)) {
+        return 'javascript';
+    }
+    return extension === '.py' ? 'python' : extension === '.go' ? 'go' : undefined;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.stat(filePath)).isFile();
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Extracts the imports of a source file with regular expressions; comments are not stripped,
+ * so a commented-out import may pull in a file too.
+ */
+function parseImports(content: string, language: ImportLanguage): ImportReference[] {
+    const imports: ImportReference[] = [];
+    if (language === 'javascript') {
+        const patterns = [
+            /\b(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+            /\bimport\s*['"]([^'"]+)['"]/g,
+            /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+        ];
+        for (const pattern of patterns) {
+            for (const match of content.matchAll(pattern)) {
+                imports.push({ specifier: match[1] });
+            }
+        }
+    } else if (language === 'python') {
+        for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm)) {
+            const names = match[2].replace(/[()\\]/g, ' ').split(',')
+                .map(name => name.trim().split(/\s+as\s+/)[0].trim())
+                .filter(name => name && name !== '*');
+            imports.push({ specifier: match[1], names });
+        }
+        for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w., \t]+)/gm)) {
+            for (const name of match[1].split(',')) {
+                const moduleName = name.trim().split(/\s+as\s+/)[0].trim();
+                if (moduleName) {
+                    imports.push({ specifier: moduleName });
+                }
+            }
+        }
+    } else {
+        for (const match of content.matchAll(/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+            imports.push({ specifier: match[1] });
+        }
+        for (const block of content.matchAll(/^\s*import\s*\(([\s\S]*?)\)/gm)) {
+            for (const match of block[1].matchAll(/^\s*(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+                imports.push({ specifier: match[1] });
+            }
+        }
+    }
+    return imports;
+}
+
+/**
+ * Removes comments and trailing commas, which tsconfig.json allows but JSON.parse does not.
+ */
+function parseJsonWithComments(text: string): unknown {
+    let output = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                output += text[i + 1] ?? '';
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            output += char;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i + 1 < text.length && text[i + 1] !== '\n') {
+                i++;
+            }
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else {
+            output += char;
+        }
+    }
+    return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Resolves files, directories and tsconfig/jsconfig/go.mod lookups for one copy, caching what it reads.
+ */
+class DependencyResolver {
+    private readonly pathMappingsCache = new Map<string, Promise<PathMappings | undefined>>();
+    private readonly goModuleCache = new Map<string, Promise<{ name: string; dir: string } | undefined>>();
+
+    /**
+     * Walks up from a folder to the workspace folder (or the file system root), returning the first file found.
+     */
+    private async findUp(startDir: string, fileNames: string[]): Promise<string | undefined> {
+        const rootDir = getWorkspaceRootForUri(vscode.Uri.file(startDir))?.fsPath;
+        let dir = startDir;
+        while (true) {
+            for (const fileName of fileNames) {
+                const candidate = path.join(dir, fileName);
+                if (await isFile(candidate)) {
+                    return candidate;
+                }
+            }
+            const parent = path.dirname(dir);
+            if (dir === rootDir || parent === dir) {
+                return undefined;
+            }
+            dir = parent;
+        }
+    }
+
+    /**
+     * Reads `baseUrl` and `paths` from a tsconfig.json or jsconfig.json, following relative `extends`.
+     */
+    private async loadPathMappings(configPath: string, depth = 0): Promise<PathMappings | undefined> {
+        let config: TsConfigFile;
+        try {
+            const parsed = parseJsonWithComments(await fs.promises.readFile(configPath, 'utf8'));
+            config = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as TsConfigFile : {};
+        } catch (error) {
+            console.warn(`Could not parse ${configPath}: ${error}`);
+            return undefined;
+        }
+        const configDir = path.dirname(configPath);
+        const extendsPath = typeof config.extends === 'string' && config.extends.startsWith('.') && depth < 5
+            ? path.resolve(configDir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`)
+            : undefined;
+        const inherited = extendsPath ? await this.loadPathMappings(extendsPath, depth + 1) : undefined;
+
+        const options = config.compilerOptions ?? {};
+        const baseUrl = typeof options.baseUrl === 'string' ? path.resolve(configDir, options.baseUrl) : inherited?.baseUrl;
+        const ownPaths = options.paths && typeof options.paths === 'object' && !Array.isArray(options.paths)
+            ? Object.fromEntries(Object.entries(options.paths).map(([pattern, targets]) =>
+                [pattern, Array.isArray(targets) ? targets.filter((target): target is string => typeof target === 'string') : []]))
+            : undefined;
+        return {
+            baseUrl,
+            paths: ownPaths ?? inherited?.paths ?? {},
+            pathsBase: ownPaths ? (baseUrl ?? configDir) : (inherited?.pathsBase ?? baseUrl ?? configDir),
+        };
+    }
+
+    private getPathMappings(fromDir: string): Promise<PathMappings | undefined> {
+        let mappings = this.pathMappingsCache.get(fromDir);
+        if (!mappings) {
+            mappings = this.findUp(fromDir, ['tsconfig.json', 'jsconfig.json'])
+                .then(configPath => configPath ? this.loadPathMappings(configPath) : undefined);
+            this.pathMappingsCache.set(fromDir, mappings);
+        }
+        return mappings;
+    }
+
+    /**
+     * Resolves a module path the way Node and TypeScript do: the exact file, the path plus a known extension,
+     * the TypeScript source of an emitted ".js" path, or an index file in the folder.
+     */
+    private async resolveJsFile(basePath: string): Promise<string | undefined> {
+        const extension = path.extname(basePath);
+        const candidates = [
+            ...(extension ? [basePath] : []),
+            ...(EMITTED_TO_SOURCE_EXTENSIONS[extension] ?? []).map(sourceExtension => basePath.slice(0, -extension.length) + sourceExtension),
+            ...JS_EXTENSIONS.map(candidate => basePath + candidate),
+            ...JS_EXTENSIONS.map(candidate => path.join(basePath, `index${candidate}`)),
+        ];
+        for (const candidate of candidates) {
+            if (await isFile(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private async resolveJsImport(fromFile: string, specifier: string): Promise<string[]> {
+        const fromDir = path.dirname(fromFile);
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            const resolved = await this.resolveJsFile(path.resolve(fromDir, specifier));
+            return resolved ? [resolved] : [];
+        }
+
+        // Bare specifiers are packages from node_modules unless tsconfig/jsconfig paths map them to local files
+        const mappings = await this.getPathMappings(fromDir);
+        if (!mappings) {
+            return [];
+        }
+        for (const [pattern, targets] of Object.entries(mappings.paths)) {
+            const starIndex = pattern.indexOf('*');
+            const prefix = starIndex === -1 ? pattern : pattern.slice(0, starIndex);
+            const suffix = starIndex === -1 ? '' : pattern.slice(starIndex + 1);
+            const matches = starIndex === -1
+                ? specifier === pattern
+                : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+            if (!matches) {
+                continue;
+            }
+            const wildcard = starIndex === -1 ? '' : specifier.slice(prefix.length, specifier.length - suffix.length);
+            for (const target of targets) {
+                const resolved = await this.resolveJsFile(path.resolve(mappings.pathsBase, target.replace('*', wildcard)));
+                if (resolved) {
+                    return [resolved];
+                }
+            }
+        }
+        if (mappings.baseUrl) {
+            const resolved = await this.resolveJsFile(path.resolve(mappings.baseUrl, specifier));
+            return resolved ? [resolved] : [];
+        }
+        return [];
+    }
+
+    private async resolvePythonModule(baseDir: string, moduleName: string): Promise<string | undefined> {
+        const modulePath = path.join(baseDir, ...moduleName.split('.').filter(Boolean));
+        for (const candidate of [`${modulePath}.py`, path.join(modulePath, '__init__.py')]) {
+            if (await isFile(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolves `import a.b` and `from .a import b` against the importing file's folder (relative imports),
+     * or against the file's folder, the workspace folder and its "src" folder (absolute imports).
+     * Imported names that are submodules resolve to their own files.
+     */
+    private async resolvePythonImport(fromFile: string, reference: ImportReference): Promise<string[]> {
+        const dots = reference.specifier.match(/^\.*/)![0].length;
+        const moduleName = reference.specifier.slice(dots);
+        let baseDirs: string[];
+        if (dots > 0) {
+            let baseDir = path.dirname(fromFile);
+            for (let i = 1; i < dots; i++) {
+                baseDir = path.dirname(baseDir);
+            }
+            baseDirs = [baseDir];
+        } else {
+            const rootDir = getWorkspaceRootForUri(vscode.Uri.file(fromFile))?.fsPath;
+            baseDirs = [path.dirname(fromFile), ...(rootDir ? [rootDir, path.join(rootDir, 'src')] : [])];
+        }
+
+        for (const baseDir of baseDirs) {
+            const resolved: string[] = [];
+            const modulePath = moduleName ? await this.resolvePythonModule(baseDir, moduleName) : undefined;
+            if (modulePath) {
+                resolved.push(modulePath);
+            }
+            for (const name of reference.names ?? []) {
+                const submodulePath = await this.resolvePythonModule(baseDir, moduleName ? `${moduleName}.${name}` : name);
+                if (submodulePath) {
+                    resolved.push(submodulePath);
+                }
+            }
+            if (resolved.length > 0) {
+                return resolved;
+            }
+        }
+        return [];
+    }
+
+    private getGoModule(fromDir: string): Promise<{ name: string; dir: string } | undefined> {
+        let goModule = this.goModuleCache.get(fromDir);
+        if (!goModule) {
+            goModule = (async () => {
+                const goModPath = await this.findUp(fromDir, ['go.mod']);
+                if (!goModPath) {
+                    return undefined;
+                }
+                const name = (await fs.promises.readFile(goModPath, 'utf8')).match(/^\s*module\s+(\S+)/m)?.[1];
+                return name ? { name, dir: path.dirname(goModPath) } : undefined;
+            })();
+            this.goModuleCache.set(fromDir, goModule);
+        }
+        return goModule;
+    }
+
+    /**
+     * Resolves an import of a package of the same Go module (from go.mod) to the package's non-test source files.
+     */
+    private async resolveGoImport(fromFile: string, specifier: string): Promise<string[]> {
+        const goModule = await this.getGoModule(path.dirname(fromFile));
+        if (!goModule || (specifier !== goModule.name && !specifier.startsWith(`${goModule.name}/`))) {
+            return [];
+        }
+        const packageDir = path.join(goModule.dir, ...specifier.slice(goModule.name.length).split('/').filter(Boolean));
+        try {
+            const fileNames = await fs.promises.readdir(packageDir);
+            return fileNames
+                .filter(fileName => fileName.endsWith('.go') && !fileName.endsWith('_test.go'))
+                .sort()
+                .map(fileName => path.join(packageDir, fileName));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    resolveImport(fromFile: string, language: ImportLanguage, reference: ImportReference): Promise<string[]> {
+        switch (language) {
+            case 'javascript':
+                return this.resolveJsImport(fromFile, reference.specifier);
+            case 'python':
+                return this.resolvePythonImport(fromFile, reference);
+            default:
+                return this.resolveGoImport(fromFile, reference.specifier);
+        }
+    }
+}
+
+/**
+ * Follows the local imports of a TypeScript/JavaScript, Python or Go file, breadth-first, up to
+ * 'llmCopier.dependencyDepth' levels. TypeScript and JavaScript imports honor tsconfig.json/jsconfig.json
+ * `baseUrl` and `paths`; Go imports are resolved within the module declared by go.mod. Third-party packages
+ * (bare imports without a path mapping, and anything under node_modules) and ignored files are left out.
+ * @param fileUri The copied file.
+ * @param content The copied file's content (possibly unsaved).
+ * @param ignoreFilter The filter deciding which files to skip.
+ * @param skipSummary Collects the dependencies skipped as ignored, binary or unreadable.
+ * @returns The dependencies with their content, in the order they were found.
+ */
+export async function collectDependencies(
+    fileUri: vscode.Uri,
+    content: string,
+    ignoreFilter: IgnoreFilter,
+    skipSummary: SkipSummary
+): Promise<(ResolvedDependency & { content: string })[]> {
+    const maxDepth = Math.max(0, vscode.workspace.getConfiguration('llmCopier').get<number>('dependencyDepth', 2));
+    const resolver = new DependencyResolver();
+    const visited = new Set<string>([fileUri.fsPath]);
+    const dependencies: (ResolvedDependency & { content: string })[] = [];
+
+    let queue = [{ filePath: fileUri.fsPath, content, depth: 0 }];
+    while (queue.length > 0) {
+        const nextQueue: typeof queue = [];
+        for (const current of queue) {
+            const language = getImportLanguage(current.filePath);
+            if (!language || current.depth >= maxDepth) {
+                continue;
+            }
+            const importerPath = createContentEntry(vscode.Uri.file(current.filePath), '').path;
+            for (const reference of parseImports(current.content, language)) {
+                for (const resolvedPath of await resolver.resolveImport(current.filePath, language, reference)) {
+                    if (visited.has(resolvedPath)) {
+                        continue;
+                    }
+                    visited.add(resolvedPath);
+
+                    const uri = vscode.Uri.file(resolvedPath);
+                    if (resolvedPath.split(path.sep).includes('node_modules')) {
+                        continue;
+                    }
+                    const excludingRule = await ignoreFilter.getExcludingRule(uri, false);
+                    if (excludingRule) {
+                        console.log(`Skipping ignored dependency ${resolvedPath} (${excludingRule})`);
+                        recordSkip(skipSummary, excludingRule, uri);
+                        continue;
+                    }
+                    if (await isLikelyBinary(uri)) {
+                        recordSkip(skipSummary, 'binary file', uri);
+                        continue;
+                    }
+                    let dependencyContent: string | undefined;
+                    try {
+                        dependencyContent = await readTextFile(uri, skipSummary);
+                    } catch (error) {
+                        console.error(`Failed to read dependency ${resolvedPath}: ${error}`);
+                        recordSkip(skipSummary, 'unreadable file', uri);
+                        continue;
+                    }
+                    if (dependencyContent === undefined) {
+                        continue;
+                    }
+
+                    const depth = current.depth + 1;
+                    const how = language === 'go' ? `package "${reference.specifier}"` : `"${reference.specifier}"`;
+                    dependencies.push({ uri, reason: `imported by ${importerPath} as ${how}`, depth, content: dependencyContent });
+                    nextQueue.push({ filePath: resolvedPath, content: dependencyContent, depth });
+                }
+            }
+        }
+        queue = nextQueue;
+    }
+    return dependencies;
+}
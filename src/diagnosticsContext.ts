@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContentEntry } from './outputFormats';
+import { createContentEntry, isLikelyBinary, qualifyPathsAcrossWorkspaceFolders, readTextFile, SkipSummary, recordSkip } from './fileUtils';
+
+type ProblemsSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+const SEVERITY_LEVELS: Record<ProblemsSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Problems found for a copy, as entries ready for the shared pipeline.
+ */
+export interface ProblemEntries {
+    /** A "problems" list followed by the affected code. */
+    entries: ContentEntry[];
+    problemCount: number;
+    fileCount: number;
+}
+
+function describeSeverity(severity: vscode.DiagnosticSeverity): string {
+    return vscode.DiagnosticSeverity[severity].toLowerCase();
+}
+
+/**
+ * Describes a diagnostic as one line, e.g. "src/app.ts:12:5 error ts(2345): Argument of type ...".
+ */
+function describeDiagnostic(entryPath: string, diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    const origin = diagnostic.source ? `${diagnostic.source}${code !== undefined ? `(${code})` : ''}` : code !== undefined ? String(code) : '';
+    const position = `${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+    // Multi-line messages (e.g. TypeScript's elaborations) are indented under the first line
+    const message = diagnostic.message.split('\n').join('\n    ');
+    return `${entryPath}:${position} ${describeSeverity(diagnostic.severity)}${origin ? ` ${origin}` : ''}: ${message}`;
+}
+
+/**
+ * Whether the file is one of the scope URIs, or inside one of them (for selected folders).
+ */
+function isInScope(uri: vscode.Uri, scopeUris: vscode.Uri[]): boolean {
+    return scopeUris.some(scopeUri => {
+        const relativePath = path.relative(scopeUri.fsPath, uri.fsPath);
+        return relativePath === '' || (relativePath !== '..' && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath));
+    });
+}
+
+/**
+ * Reads the file the diagnostics refer to: the open document's text, which the language servers report on,
+ * otherwise the file on disk.
+ * @returns The content, or undefined if the file on disk was skipped by the size or minified-file policies.
+ */
+async function readDiagnosedFile(uri: vscode.Uri, skipSummary: SkipSummary): Promise<{ content: string; languageId?: string } | undefined> {
+    const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.toString() === uri.toString());
+    if (document) {
+        return { content: document.getText(), languageId: document.languageId };
+    }
+    const content = await readTextFile(uri, skipSummary);
+    return content !== undefined ? { content } : undefined;
+}
+
+/**
+ * Merges the line ranges around the diagnostics, so close problems share one snippet.
+ */
+function mergeContextRanges(diagnostics: vscode.Diagnostic[], contextLines: number, lineCount: number): { startLine: number; endLine: number; diagnostics: vscode.Diagnostic[] }[] {
+    const ranges: { startLine: number; endLine: number; diagnostics: vscode.Diagnostic[] }[] = [];
+    for (const diagnostic of [...diagnostics].sort((a, b) => a.range.start.compareTo(b.range.start))) {
+        const startLine = Math.max(0, diagnostic.range.start.line - contextLines);
+        const endLine = Math.min(lineCount - 1, diagnostic.range.end.line + contextLines);
+        const last = ranges[ranges.length - 1];
+        if (last && startLine <= last.endLine + 1) {
+            last.endLine = Math.max(last.endLine, endLine);
+            last.diagnostics.push(diagnostic);
+        } else {
+            ranges.push({ startLine, endLine, diagnostics: [diagnostic] });
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Collects the problems reported by `vscode.languages.getDiagnostics` at or above 'llmCopier.problemsMinSeverity'.
+ * The first entry lists every problem with its severity, source, code and message; it is followed by the affected
+ * code: 'llmCopier.problemsContextLines' lines around each problem, or whole files if 'llmCopier.problemsIncludeFullFiles'
+ * is enabled.
+ * @param scopeUris The files or folders to report on, or undefined for the whole workspace.
+ * @param skipSummary Collects the affected files that could not be read.
+ * @returns The entries, or undefined if there are no problems in scope.
+ */
+export async function collectProblemEntries(scopeUris: vscode.Uri[] | undefined, skipSummary: SkipSummary): Promise<ProblemEntries | undefined> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const minSeverity = SEVERITY_LEVELS[config.get<ProblemsSeverity>('problemsMinSeverity', 'warning')] ?? vscode.DiagnosticSeverity.Warning;
+    const contextLines = Math.max(0, config.get<number>('problemsContextLines', 3));
+    const includeFullFiles = config.get<boolean>('problemsIncludeFullFiles', false);
+
+    const diagnosedFiles = vscode.languages.getDiagnostics()
+        .filter(([uri]) => uri.scheme === 'file' && (!scopeUris || isInScope(uri, scopeUris)))
+        .map(([uri, diagnostics]) => ({ uri, diagnostics: diagnostics.filter(diagnostic => diagnostic.severity <= minSeverity) }))
+        .filter(file => file.diagnostics.length > 0)
+        .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+    if (diagnosedFiles.length === 0) {
+        return undefined;
+    }
+
+    const problemLines: string[] = [];
+    const codeEntries: ContentEntry[] = [];
+    let problemCount = 0;
+    // The problems list is plain text, so its paths are qualified here the way the pipeline qualifies the code entries
+    const filePaths = qualifyPathsAcrossWorkspaceFolders(diagnosedFiles.map(({ uri }) => createContentEntry(uri, ''))).map(entry => entry.path);
+    for (const [index, { uri, diagnostics }] of diagnosedFiles.entries()) {
+        const sortedDiagnostics = [...diagnostics].sort((a, b) => a.severity - b.severity || a.range.start.compareTo(b.range.start));
+        problemLines.push(...sortedDiagnostics.map(diagnostic => describeDiagnostic(filePaths[index], diagnostic)));
+        problemCount += diagnostics.length;
+
+        let file: { content: string; languageId?: string } | undefined;
+        try {
+            if (await isLikelyBinary(uri)) {
+                recordSkip(skipSummary, 'binary file', uri);
+                continue;
+            }
+            file = await readDiagnosedFile(uri, skipSummary);
+        } catch (error) {
+            console.error(`Failed to read file with problems ${uri.fsPath}: ${error}`);
+            recordSkip(skipSummary, 'unreadable file', uri);
+            continue;
+        }
+        if (!file) {
+            continue;
+        }
+
+        if (includeFullFiles) {
+            // The whole file is asked for to fix its problems, so it is never outlined
+            codeEntries.push({ ...createContentEntry(uri, file.content, file.languageId), fullContent: true });
+            continue;
+        }
+        const lines = file.content.split('\n');
+        for (const range of mergeContextRanges(diagnostics, contextLines, lines.length)) {
+            const entry = createContentEntry(uri, lines.slice(range.startLine, range.endLine + 1).join('\n'), file.languageId);
+            const problemPositions = range.diagnostics.map(diagnostic => `${describeSeverity(diagnostic.severity)} at ${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`);
+            codeEntries.push({ ...entry, path: `${entry.path}:${range.startLine + 1}-${range.endLine + 1} (${problemPositions.join(', ')})`, partial: true });
+        }
+    }
+
+    const problemsEntry: ContentEntry = {
+        path: `problems (${problemCount} in ${diagnosedFiles.length} file${diagnosedFiles.length === 1 ? '' : 's'})`,
+        language: '',
+        content: problemLines.join('\n'),
+    };
+    return { entries: [problemsEntry, ...codeEntries], problemCount, fileCount: diagnosedFiles.length };
+}
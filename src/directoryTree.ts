@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isLikelyBinary, getWorkspaceRootForUri } from './fileUtils';
+import { IgnoreFilter } from './ignoreRules';
+import { ContentEntry } from './outputFormats';
+
+/**
+ * Lists a folder as `tree`-style lines, skipping ignored entries and binary files like the copy itself does.
+ * @param folderUri The folder to list.
+ * @param prefix The indentation prefix for this level.
+ * @param depth The current depth (1 for the root's children).
+ * @param maxDepth Folders deeper than this are shown collapsed.
+ * @param markers The marks of the copied files by file system path: "*" in full, "(outline)" as an outline.
+ * @param ignoreFilter The filter deciding which entries to skip.
+ */
+async function listFolder(folderUri: vscode.Uri, prefix: string, depth: number, maxDepth: number, markers: Map<string, string>, ignoreFilter: IgnoreFilter): Promise<string[]> {
+    let entries: [string, vscode.FileType][];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(folderUri);
+    } catch (error) {
+        console.error(`Failed to list directory ${folderUri.fsPath} for the directory tree: ${error}`);
+        return [];
+    }
+
+    const visible: { name: string; uri: vscode.Uri; isDirectory: boolean }[] = [];
+    for (const [name, type] of entries) {
+        const uri = vscode.Uri.joinPath(folderUri, name);
+        const isDirectory = type === vscode.FileType.Directory;
+        if (await ignoreFilter.getExcludingRule(uri, isDirectory)) {
+            continue;
+        }
+        if (type === vscode.FileType.File && await isLikelyBinary(uri)) {
+            continue;
+        }
+        if (isDirectory || type === vscode.FileType.File) {
+            visible.push({ name, uri, isDirectory });
+        }
+    }
+
+    // Folders first, then files, each alphabetically
+    visible.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+
+    const lines: string[] = [];
+    for (let i = 0; i < visible.length; i++) {
+        const entry = visible[i];
+        const isLast = i === visible.length - 1;
+        const connector = isLast ? '└── ' : '├── ';
+        if (entry.isDirectory) {
+            lines.push(`${prefix}${connector}${entry.name}/`);
+            const childPrefix = prefix + (isLast ? '    ' : '│   ');
+            if (depth < maxDepth) {
+                lines.push(...await listFolder(entry.uri, childPrefix, depth + 1, maxDepth, markers, ignoreFilter));
+            } else {
+                lines.push(`${childPrefix}└── …`);
+            }
+        } else {
+            const marker = markers.get(entry.uri.fsPath);
+            lines.push(`${prefix}${connector}${entry.name}${marker ? ` ${marker}` : ''}`);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Finds the folders to show in the directory tree, according to 'llmCopier.directoryTreeRoot'.
+ * @param selectedUris The folders (or files) the copy was started from.
+ * @param selectionIsFolders Whether the selection consists of folders rather than files.
+ * @returns The workspace folders containing the selection, or the selected folders themselves
+ *          (for files, their nearest common parent folder).
+ */
+export function getDirectoryTreeRoots(selectedUris: vscode.Uri[], selectionIsFolders: boolean): vscode.Uri[] {
+    const rootSetting = vscode.workspace.getConfiguration('llmCopier').get<string>('directoryTreeRoot', 'selection');
+    const roots = new Map<string, vscode.Uri>();
+
+    if (rootSetting === 'workspace') {
+        for (const uri of selectedUris) {
+            const workspaceRoot = getWorkspaceRootForUri(uri) ?? (selectionIsFolders ? uri : vscode.Uri.file(path.dirname(uri.fsPath)));
+            roots.set(workspaceRoot.fsPath, workspaceRoot);
+        }
+    } else if (selectionIsFolders) {
+        for (const uri of selectedUris) {
+            roots.set(uri.fsPath, uri);
+        }
+    } else if (selectedUris.length > 0) {
+        let commonPath = path.dirname(selectedUris[0].fsPath);
+        for (const uri of selectedUris.slice(1)) {
+            while (path.relative(commonPath, uri.fsPath).startsWith('..') && path.dirname(commonPath) !== commonPath) {
+                commonPath = path.dirname(commonPath);
+            }
+        }
+        roots.set(commonPath, vscode.Uri.file(commonPath));
+    }
+
+    return [...roots.values()];
+}
+
+/**
+ * Builds the directory tree header placed after the prompt, if 'llmCopier.includeDirectoryTree' is enabled.
+ * @param rootUris The folders to list.
+ * @param writtenEntries The entries written by the copy. Their files are marked with "*", or with "(outline)" if only
+ *                       their outline is included ('llmCopier.compressionMode').
+ * @param ignoreFilter The filter used by the copy, so the tree shows the same files.
+ * @returns The header text, or an empty string if disabled.
+ */
+export async function buildDirectoryTreeHeader(rootUris: vscode.Uri[], writtenEntries: ContentEntry[], ignoreFilter: IgnoreFilter): Promise<string> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    if (!config.get<boolean>('includeDirectoryTree', false) || rootUris.length === 0) {
+        return '';
+    }
+    const maxDepth = Math.max(1, config.get<number>('directoryTreeDepth', 4));
+    const markers = new Map(writtenEntries.flatMap(entry => entry.uri ? [[entry.uri.fsPath, entry.outlined ? '(outline)' : '*']] : []));
+
+    const lines: string[] = [];
+    for (const rootUri of rootUris) {
+        lines.push(`${path.basename(rootUri.fsPath)}/`);
+        lines.push(...await listFolder(rootUri, '', 1, maxDepth, markers, ignoreFilter));
+    }
+
+    const legend = writtenEntries.some(entry => entry.outlined)
+        ? 'files marked with * are included below, files marked with (outline) only as an outline'
+        : 'files marked with * are included below';
+    return `Directory tree (${legend}):\n\`\`\`\n${lines.join('\n')}\n\`\`\`\n\n`;
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+
+/**
+ * VS Code 'files.encoding' ids that do not follow the generic "windows1252" / "iso88591" patterns,
+ * mapped to the WHATWG labels understood by TextDecoder.
+ */
+const ENCODING_LABELS: Record<string, string> = {
+    utf8: 'utf-8',
+    utf8bom: 'utf-8',
+    utf16le: 'utf-16le',
+    utf16be: 'utf-16be',
+    gbk: 'gbk',
+    gb2312: 'gbk',
+    gb18030: 'gb18030',
+    big5hkscs: 'big5',
+    cp950: 'big5',
+    shiftjis: 'shift_jis',
+    eucjp: 'euc-jp',
+    euckr: 'euc-kr',
+    koi8r: 'koi8-r',
+    koi8u: 'koi8-u',
+    koi8ru: 'koi8-u',
+    cp866: 'ibm866',
+    macroman: 'macintosh',
+};
+
+/**
+ * The encoding of a file's bytes, and the length of its byte order mark.
+ */
+export interface DetectedEncoding {
+    /** WHATWG encoding label, e.g. "utf-8" or "shift_jis". */
+    encoding: string;
+    bomLength: number;
+}
+
+/**
+ * Converts a VS Code 'files.encoding' id such as "shiftjis" or "windows1252" into a TextDecoder label.
+ */
+function toEncodingLabel(encodingId: string): string {
+    const id = encodingId.toLowerCase();
+    const label = ENCODING_LABELS[id]
+        ?? id.replace(/^windows(\d+)$/, 'windows-$1').replace(/^iso8859(\d+)$/, 'iso-8859-$1');
+    try {
+        new TextDecoder(label);
+        return label;
+    } catch (error) {
+        console.warn(`Unsupported files.encoding "${encodingId}", reading as UTF-8.`);
+        return 'utf-8';
+    }
+}
+
+/**
+ * Reads VS Code's 'files.encoding' for the file, including language and folder specific overrides.
+ * @returns The TextDecoder label of the configured encoding.
+ */
+export function getConfiguredEncoding(fileUri: vscode.Uri): string {
+    return toEncodingLabel(vscode.workspace.getConfiguration('files', fileUri).get<string>('encoding', 'utf8'));
+}
+
+/**
+ * Recognizes UTF-16 text without a byte order mark: ASCII-range characters leave every other byte zero.
+ * @returns "utf-16le" or "utf-16be", or undefined if the zero bytes do not follow that pattern.
+ */
+function detectUtf16WithoutBom(sample: Uint8Array): string | undefined {
+    const pairCount = Math.floor(sample.length / 2);
+    if (pairCount < 2) {
+        return undefined;
+    }
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairCount * 2; i += 2) {
+        evenZeros += sample[i] === 0 ? 1 : 0;
+        oddZeros += sample[i + 1] === 0 ? 1 : 0;
+    }
+    if (oddZeros >= pairCount * 0.3 && evenZeros <= pairCount * 0.05) {
+        return 'utf-16le';
+    }
+    if (evenZeros >= pairCount * 0.3 && oddZeros <= pairCount * 0.05) {
+        return 'utf-16be';
+    }
+    return undefined;
+}
+
+/**
+ * Detects the encoding of a file the way VS Code opens it: a byte order mark wins, UTF-16 without a BOM is
+ * recognized by its zero bytes, and otherwise the file is read with the configured 'files.encoding'.
+ * @param sample The first bytes of the file (1 KB is enough).
+ * @param configuredEncoding The TextDecoder label of the configured encoding.
+ */
+export function detectEncoding(sample: Uint8Array, configuredEncoding: string): DetectedEncoding {
+    if (sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF) {
+        return { encoding: 'utf-8', bomLength: 3 };
+    }
+    if (sample[0] === 0xFF && sample[1] === 0xFE) {
+        return { encoding: 'utf-16le', bomLength: 2 };
+    }
+    if (sample[0] === 0xFE && sample[1] === 0xFF) {
+        return { encoding: 'utf-16be', bomLength: 2 };
+    }
+    if (configuredEncoding.startsWith('utf-16')) {
+        return { encoding: configuredEncoding, bomLength: 0 };
+    }
+    return { encoding: detectUtf16WithoutBom(sample) ?? configuredEncoding, bomLength: 0 };
+}
+
+/**
+ * Whether the file's bytes are text in a UTF-16 encoding, whose zero bytes would otherwise look binary.
+ * Only a byte order mark or the UTF-16 zero byte pattern counts: a UTF-16 'files.encoding' alone would let
+ * every binary file pass as text.
+ */
+export function isUtf16Text(sample: Uint8Array): boolean {
+    return detectEncoding(sample, 'utf-8').encoding.startsWith('utf-16');
+}
+
+/**
+ * Decodes file bytes; invalid sequences become U+FFFD rather than failing the copy.
+ * @param bytes The bytes, without the byte order mark.
+ * @param encoding A TextDecoder label from detectEncoding.
+ */
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+    return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Decodes a whole file the way VS Code opens it, for content that must not be truncated, such as the text
+ * a response's diff is applied to.
+ * @param bytes The file's bytes, including any byte order mark.
+ * @param fileUri The file, whose 'files.encoding' applies when no other encoding is detected.
+ */
+export function decodeFileContent(bytes: Uint8Array, fileUri: vscode.Uri): string {
+    const { encoding, bomLength } = detectEncoding(bytes.subarray(0, 1024), getConfiguredEncoding(fileUri));
+    return decodeText(bytes.subarray(bomLength), encoding);
+}
@@ -1,161 +1,187 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { isLikelyBinary, getWorkspaceRootForUri, getRelativePathString, formatFileContentForClipboard } from './fileUtils';
+import { isLikelyBinary, getWorkspaceRootForUri, createContentEntry, readTextFile, createSkipSummary, recordSkip, showMessageWithSkipReport, registerSkipReportChannel } from './fileUtils';
+import { createIgnoreFilter } from './ignoreRules';
+import { readFolderRecursively, collectEntries, ContextSource } from './contextCollector';
+import { OutputTarget, writePayload, describeWriteResult, describeWriteTarget, initializeTokenStatusBar } from './clipboardWriter';
+import { ContentEntry } from './outputFormats';
+import { buildDirectoryTreeHeader, getDirectoryTreeRoots } from './directoryTree';
+import { registerResponsePreviewProvider, applyResponseFromClipboard } from './responseApplier';
+import { Bundle, registerBundles, getBundleItemUri } from './bundles';
+import { getPromptContent, listPromptTemplates } from './prompts';
+import { runGit, getRepositoryRoot, listBranches, getDiff, resolveCommit, listUntrackedFiles } from './gitUtils';
+import { createUnifiedDiff } from './unifiedDiff';
+import { createSelectionEntries } from './selectionContext';
+import { registerChatPanel } from './chatPanel';
+import { reviewEntriesBeforeCopy } from './copyReview';
+import { registerConfigSync } from './configSync';
+import { registerCopyHistory } from './copyHistory';
+import { collectDependencies } from './dependencyResolver';
+import { collectProblemEntries } from './diagnosticsContext';
+import { LlmCopierApi, CopyContextOptions, registerApi, isCopyContextOptions, copyContextFromOptions } from './api';
 
 /**
- * Reads the content of 'prompt.txt' based on configuration and priority.
- * 1. Checks 'llmCopier.includePromptFile'. If false, returns empty string.
- * 2. If true, attempts to read 'prompt.txt' from the workspace root.
- * 3. If workspace 'prompt.txt' is not found or fails to read, attempts to read from 'llmCopier.globalPromptFilePath'.
- * @returns A formatted string of the prompt.txt content, or an empty string if not found, disabled, or an error occurs.
+ * Copies a context bundle through the shared prompt.txt, formatting and token budget pipeline.
+ * The contents of folders and globs honor the ignore rules; files, folders and pinned selections are always included.
+ * @param bundle The bundle to copy.
  */
-async function getPromptFileContent(): Promise<string> {
-    const config = vscode.workspace.getConfiguration('llmCopier');
-    const includePromptFile = config.get<boolean>('includePromptFile', true);
-    const globalPromptFilePath = config.get<string>('globalPromptFilePath', '');
-
-    // If 'includePromptFile' is false, exit early
-    if (!includePromptFile) {
-        return '';
-    }
-
-    let content = '';
-
-    // 1. Try to read project-level prompt.txt (higher priority)
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders && workspaceFolders.length > 0) {
-        const rootUri = workspaceFolders[0].uri;
-        const projectPromptFilePath = path.join(rootUri.fsPath, 'prompt.txt');
-        try {
-            const fileStat = await vscode.workspace.fs.stat(vscode.Uri.file(projectPromptFilePath));
-            if (fileStat.type === vscode.FileType.File) {
-                const contentBuffer = await vscode.workspace.fs.readFile(vscode.Uri.file(projectPromptFilePath));
-                content = Buffer.from(contentBuffer).toString('utf8');
-                // If project prompt.txt found, return it immediately
-                return `${content}\n\n`;
-            }
-        } catch (error) {
-            // File not found or other read error, silently ignore and proceed to global path
-            // console.warn(`Could not read project prompt.txt at ${projectPromptFilePath}: ${error}`);
+async function copyBundle(bundle: Bundle): Promise<void> {
+    const skipSummary = createSkipSummary();
+    const sources: ContextSource[] = [];
+    for (const item of bundle.items) {
+        const itemUri = getBundleItemUri(item);
+        if (item.type === 'glob') {
+            sources.push({ glob: item.path });
+        } else if (!itemUri) {
+            recordSkip(skipSummary, 'unresolvable path');
+        } else {
+            sources.push({ uri: itemUri, range: item.type === 'selection' ? item.range : undefined });
         }
     }
+    const entries = await collectEntries(sources, skipSummary);
 
-    // 2. If project prompt.txt was not found or read, try to read global prompt.txt
-    if (globalPromptFilePath) {
-        const absGlobalPromptFilePath = path.resolve(globalPromptFilePath); // Resolve to absolute path
-        try {
-            const fileStat = await vscode.workspace.fs.stat(vscode.Uri.file(absGlobalPromptFilePath));
-            if (fileStat.type === vscode.FileType.File) {
-                const contentBuffer = await vscode.workspace.fs.readFile(vscode.Uri.file(absGlobalPromptFilePath));
-                content = Buffer.from(contentBuffer).toString('utf8');
-            }
-        } catch (error) {
-            console.error(`Failed to read global prompt.txt at ${absGlobalPromptFilePath}: ${error}`);
-            vscode.window.showWarningMessage(`Could not read global prompt file configured at "${globalPromptFilePath}". Check path and permissions.`);
-        }
+    if (entries.length === 0) {
+        showMessageWithSkipReport(`Bundle "${bundle.name}" has nothing to copy.`, skipSummary);
+        return;
     }
 
-    return content ? `${content}\n\n` : '';
+    const reviewedEntries = await reviewEntriesBeforeCopy(entries);
+    if (!reviewedEntries || reviewedEntries.length === 0) {
+        return;
+    }
+    const promptContent = await getPromptContent(reviewedEntries);
+    if (!promptContent) {
+        return;
+    }
+    const writeResult = await writePayload({ ...promptContent, entries: reviewedEntries, command: `Copy Bundle "${bundle.name}"` });
+    if (writeResult) {
+        const copiedCount = reviewedEntries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+        showMessageWithSkipReport(`Copied ${copiedCount} item${copiedCount > 1 ? 's' : ''} from bundle "${bundle.name}" ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+    }
 }
 
-
 /**
- * Updates the 'root_folder' setting in the specified config.json file.
- * Reads the JSON file, modifies the 'root_folder' key, and writes it back.
- * Handles cases where the file, or key do not exist.
+ * Copies a git diff as LLM context, optionally followed by the full current content of the touched files
+ * ('llmCopier.diffIncludeFullFiles'). Binary files are left out of the full content.
+ * @param chooseDiff Returns the `git diff` arguments for the repository and a description of the diff
+ *                   (e.g. "staged changes", used as the entry path and in messages), or undefined to cancel.
+ *                   With includeUntracked, untracked files that are not ignored are added to the diff as new files.
  */
-async function updateRootFolderInConfig() {
-    const config = vscode.workspace.getConfiguration('llmCopier');
-    // NOTE: The user specified 'AutoApplyConfigFile' to point to config.json
-    // We will derive the full path from the VS Code setting.
-    const configFilePath = config.get<string>('autoApplyConfigFile');
-
-    if (!configFilePath) {
-        // Configuration file path not set, feature disabled.
-        vscode.window.showWarningMessage('llmCopier.autoApplyConfigFile is not set. Root folder sync will not occur.');
-        console.warn('[AutoCodeApplier] "llmCopier.autoApplyConfigFile" is not set. Root folder sync will not occur.');
+async function copyGitDiff(chooseDiff: (repositoryRoot: string) => Promise<{ diffArgs: string[]; description: string; includeUntracked?: boolean } | undefined>): Promise<void> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const startUri = (activeUri?.scheme === 'file' ? getWorkspaceRootForUri(activeUri) : undefined) ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+    const repositoryRoot = startUri && await getRepositoryRoot(startUri.fsPath);
+    if (!repositoryRoot) {
+        vscode.window.showErrorMessage('No git repository found for the active editor or workspace.');
         return;
     }
 
-    const absConfigFilePath = path.resolve(configFilePath);
-    const configDir = path.dirname(absConfigFilePath);
+    const chosenDiff = await chooseDiff(repositoryRoot);
+    if (!chosenDiff) {
+        return;
+    }
+    const { diffArgs, description, includeUntracked } = chosenDiff;
 
-    // Ensure the directory for the config file exists
+    let diff: string;
+    let changedPaths: string[];
+    let untrackedPaths: string[] = [];
     try {
-        await fs.promises.mkdir(configDir, { recursive: true });
+        ({ diff, changedPaths } = await getDiff(diffArgs, repositoryRoot));
+        if (includeUntracked) {
+            untrackedPaths = await listUntrackedFiles(repositoryRoot);
+        }
     } catch (error) {
-        vscode.window.showErrorMessage(`Failed to create directory for config file: ${configDir}. Error: ${error}`);
-        console.error(`[AutoCodeApplier] Failed to create directory ${configDir}:`, error);
+        console.error(`git diff failed in ${repositoryRoot}: ${error}`);
+        vscode.window.showErrorMessage(`git diff failed: ${error instanceof Error ? error.message : error}`);
         return;
     }
 
-    let currentRootFolder = '';
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (workspaceFolders && workspaceFolders.length > 0) {
-        // Use the first workspace folder as the project root
-        currentRootFolder = workspaceFolders[0].uri.fsPath;
-    }
-
-    let configData: { root_folder?: string } = {}; // Use an interface or type for better safety if config grows
-    let fileContent = '';
-
-    try {
-        fileContent = await fs.promises.readFile(absConfigFilePath, 'utf8');
-        if (fileContent.trim()) { // Only try to parse if file is not empty
-            configData = JSON.parse(fileContent);
+    const skipSummary = createSkipSummary();
+    for (const untrackedPath of untrackedPaths) {
+        const fileUri = vscode.Uri.file(path.join(repositoryRoot, untrackedPath));
+        if (await isLikelyBinary(fileUri)) {
+            recordSkip(skipSummary, 'binary file', fileUri);
+            continue;
         }
-    } catch (error: any) {
-        if (error.code !== 'ENOENT') { // Ignore file not found, we'll create it or overwrite
-            vscode.window.showErrorMessage(`Failed to read config file: ${absConfigFilePath}. Error: ${error}`);
-            console.error(`[AutoCodeApplier] Failed to read config file ${absConfigFilePath}:`, error);
-            // We'll proceed with an empty configData object
+        try {
+            const fileContent = await readTextFile(fileUri, skipSummary);
+            if (fileContent !== undefined) {
+                diff += createUnifiedDiff('/dev/null', `b/${untrackedPath}`, '', fileContent);
+                changedPaths.push(untrackedPath);
+            }
+        } catch (error) {
+            console.error(`Failed to read untracked file ${fileUri.fsPath}: ${error}`);
+            recordSkip(skipSummary, 'unreadable file', fileUri);
         }
     }
+    if (!diff.trim()) {
+        vscode.window.showInformationMessage(`No ${description} to copy.`);
+        return;
+    }
 
-    // Update the root_folder
-    if (configData.root_folder !== currentRootFolder) {
-        configData.root_folder = currentRootFolder;
-        try {
-            // Write back with 2-space indentation for readability
-            await fs.promises.writeFile(absConfigFilePath, JSON.stringify(configData, null, 2), 'utf8');
-            console.log(`[AutoCodeApplier] Updated root_folder in ${absConfigFilePath} to: ${currentRootFolder}`);
-            vscode.window.showInformationMessage(`AutoCodeApplier config updated: root_folder set to ${currentRootFolder}`);
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to write to config file: ${absConfigFilePath}. Error: ${error}`);
-            console.error(`[AutoCodeApplier] Failed to write config file ${absConfigFilePath}:`, error);
+    const entries: ContentEntry[] = [{ path: `git diff (${description})`, language: 'diff', content: diff.replace(/\n$/, '') }];
+    if (vscode.workspace.getConfiguration('llmCopier').get<boolean>('diffIncludeFullFiles', false)) {
+        for (const changedPath of changedPaths) {
+            const fileUri = vscode.Uri.file(path.join(repositoryRoot, changedPath));
+            if (await isLikelyBinary(fileUri)) {
+                recordSkip(skipSummary, 'binary file', fileUri);
+                continue;
+            }
+            try {
+                const fileContent = await readTextFile(fileUri, skipSummary);
+                if (fileContent !== undefined) {
+                    entries.push(createContentEntry(fileUri, fileContent));
+                }
+            } catch (error) {
+                console.error(`Failed to read changed file ${fileUri.fsPath}: ${error}`);
+                recordSkip(skipSummary, 'unreadable file', fileUri);
+            }
         }
-    } else {
-        console.log(`[AutoCodeApplier] root_folder in ${absConfigFilePath} is already up-to-date.`);
-        vscode.window.showInformationMessage('AutoCodeApplier config: root_folder is already up-to-date.');
+    }
+
+    const promptContent = await getPromptContent(entries);
+    if (!promptContent) {
+        return;
+    }
+    const writeResult = await writePayload({ ...promptContent, entries, command: `Copy Git Diff (${description})` });
+    if (writeResult) {
+        const fileCount = changedPaths.length;
+        showMessageWithSkipReport(`Copied ${description} (${fileCount} file${fileCount === 1 ? '' : 's'}) ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
     }
 }
 
+export function activate(context: vscode.ExtensionContext): LlmCopierApi {
 
-export function activate(context: vscode.ExtensionContext) {
+    // Output channel listing the items skipped by a copy
+    registerSkipReportChannel(context);
 
-    // --- Auto-update root folder in config.json ---
-    // Initial call when extension activates
-    updateRootFolderInConfig();
+    // Status bar item showing the token count of the last copy
+    initializeTokenStatusBar(context);
 
-    // Listen for workspace folder changes (e.g., opening a new folder, adding/removing a multi-root folder)
-    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(e => {
-        console.log('[AutoCodeApplier] Workspace folders changed, updating config.json...');
-        updateRootFolderInConfig();
-    }));
+    // Read-only documents backing the "Apply Response From Clipboard" diff preview
+    registerResponsePreviewProvider(context);
 
-    // Listen for configuration changes, specifically if the config file path itself changes
-    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
-        if (e.affectsConfiguration('llmCopier.autoApplyConfigFile')) {
-            console.log('[AutoCodeApplier] Auto apply config file path changed, updating config.json...');
-            updateRootFolderInConfig();
-        }
-    }));
-    // --- End Auto-update root folder ---
+    // Saved context bundles and the "LLM Context Bundles" view
+    registerBundles(context, copyBundle);
+
+    // "Open Chat" webview panel streaming answers from a local or OpenAI-compatible model
+    registerChatPanel(context);
+
+    // External tool config files (AutoCodeApplier's root folder and 'llmCopier.syncTargets') kept in sync
+    registerConfigSync(context);
+
+    // Every copy is recorded for re-copying and for copying what changed since
+    registerCopyHistory(context);
 
 
     // Command: Copy selected files' names and content
-    let copyFileNamesAndContentDisposable = vscode.commands.registerCommand('llmCopier.copyFileNamesAndContent', async (currentFile: vscode.Uri, selectedFiles: vscode.Uri[]) => {
+    let copyFileNamesAndContentDisposable = vscode.commands.registerCommand('llmCopier.copyFileNamesAndContent', async (currentFile: vscode.Uri | CopyContextOptions, selectedFiles: vscode.Uri[]) => {
+        // Keybindings and tasks pass an options object with paths and globs instead of explorer URIs
+        if (isCopyContextOptions(currentFile)) {
+            await copyContextFromOptions(currentFile);
+            return;
+        }
         let filesToProcess: vscode.Uri[] = [];
 
         if (selectedFiles && selectedFiles.length > 0) {
@@ -169,20 +195,23 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        let clipboardContent: string[] = [];
-        const promptContent = await getPromptFileContent();
-        if (promptContent) {
-            clipboardContent.push(promptContent);
-        }
+        const entries: ContentEntry[] = [];
 
         let filesToCopy: vscode.Uri[] = [];
-        // Filter out binary files before processing
+        // A single explicitly chosen file is always copied; multi-selections honor the ignore rules
+        const ignoreFilter = filesToProcess.length > 1 ? createIgnoreFilter() : undefined;
+        const skipSummary = createSkipSummary();
+        // Filter out ignored and binary files before processing
         for (const uri of filesToProcess) {
              try {
                 const stats = await fs.promises.stat(uri.fsPath);
                 if (stats.isFile()) {
-                    if (await isLikelyBinary(uri)) {
-                        vscode.window.showWarningMessage(`Skipped binary file: ${path.basename(uri.fsPath)}`);
+                    const excludingRule = await ignoreFilter?.getExcludingRule(uri, false);
+                    if (excludingRule) {
+                        console.log(`Skipping ignored file ${uri.fsPath} (${excludingRule})`);
+                        recordSkip(skipSummary, excludingRule, uri);
+                    } else if (await isLikelyBinary(uri)) {
+                        recordSkip(skipSummary, 'binary file', uri);
                     } else {
                         filesToCopy.push(uri);
                     }
@@ -195,26 +224,40 @@ export function activate(context: vscode.ExtensionContext) {
 
 
         if (filesToCopy.length === 0) {
-            vscode.window.showInformationMessage('No non-binary files were found to copy.');
+            showMessageWithSkipReport('No non-binary files were found to copy.', skipSummary);
             return;
         }
 
         for (const fileUri of filesToCopy) {
             try {
-                const fileContent = await fs.promises.readFile(fileUri.fsPath, 'utf-8');
-                clipboardContent.push(formatFileContentForClipboard(fileUri, fileContent));
+                const fileContent = await readTextFile(fileUri, skipSummary);
+                if (fileContent !== undefined) {
+                    entries.push(createContentEntry(fileUri, fileContent));
+                }
             } catch (error) {
                 console.error(`Failed to read file ${fileUri.fsPath}: ${error}`);
-                vscode.window.showWarningMessage(`Could not read file ${path.basename(fileUri.fsPath)}.`);
+                recordSkip(skipSummary, 'unreadable file', fileUri);
             }
         }
 
-        // Only count files added after the optional prompt
-        const filesCopiedCount = clipboardContent.length - (promptContent ? 1 : 0);
-        if (filesCopiedCount > 0) {
-            await vscode.env.clipboard.writeText(clipboardContent.join(''));
-            let message = `Copied ${filesCopiedCount} file${filesCopiedCount > 1 ? 's' : ''} to clipboard.`;
-            vscode.window.showInformationMessage(message);
+        if (entries.length > 0) {
+            const reviewedEntries = await reviewEntriesBeforeCopy(entries);
+            if (!reviewedEntries || reviewedEntries.length === 0) {
+                return;
+            }
+            const treeRoots = getDirectoryTreeRoots(filesToCopy, false);
+            const header = (writtenEntries: ContentEntry[]) =>
+                buildDirectoryTreeHeader(treeRoots, writtenEntries, ignoreFilter ?? createIgnoreFilter());
+            const promptContent = await getPromptContent(reviewedEntries);
+            if (!promptContent) {
+                return;
+            }
+            const writeResult = await writePayload({ ...promptContent, header, entries: reviewedEntries, fullContentUris: filesToCopy, command: 'Copy File Name And Content' });
+            if (!writeResult) {
+                return;
+            }
+            const filesCopiedCount = reviewedEntries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+            showMessageWithSkipReport(`Copied ${filesCopiedCount} file${filesCopiedCount > 1 ? 's' : ''} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
         } else {
             vscode.window.showInformationMessage('No files were copied.');
         }
@@ -243,28 +286,24 @@ export function activate(context: vscode.ExtensionContext) {
             const fileContent = document.getText();
             let message: string;
 
-            const promptContent = await getPromptFileContent();
-            let finalContentParts: string[] = [];
-            if (promptContent) {
-                finalContentParts.push(promptContent);
-            }
-
             if (fileUri.scheme === 'file') {
-                finalContentParts.push(formatFileContentForClipboard(fileUri, fileContent));
-                message = 'Copied one file to clipboard.';
+                message = 'Copied one file';
             } else if (fileUri.scheme === 'untitled') {
-                finalContentParts.push(`\`\`\`\n${fileContent}\n\`\`\`\n\n`);
-                message = 'Copied content of untitled file to clipboard.';
+                // Untitled documents are labeled with their title, e.g. "Untitled-1"
+                message = 'Copied content of untitled file';
             } else {
                 vscode.window.showWarningMessage(`Cannot copy content from document with scheme "${fileUri.scheme}". Only file system or untitled documents are supported.`);
                 return;
             }
 
-            if (finalContentParts.length > 0) {
-                await vscode.env.clipboard.writeText(finalContentParts.join(''));
-                vscode.window.showInformationMessage(message);
-            } else {
-                vscode.window.showInformationMessage('Nothing was copied.');
+            const entries = [createContentEntry(fileUri, fileContent, document.languageId)];
+            const promptContent = await getPromptContent(entries);
+            if (!promptContent) {
+                return;
+            }
+            const writeResult = await writePayload({ ...promptContent, entries, command: 'Copy Active File Name And Content' });
+            if (writeResult) {
+                vscode.window.showInformationMessage(`${message} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`);
             }
 
         } catch (error) {
@@ -273,6 +312,93 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Command: Copy a file followed by the local files it imports
+    let copyFileWithDependenciesDisposable = vscode.commands.registerCommand('llmCopier.copyFileWithDependencies', async (contextUri?: vscode.Uri) => {
+        const fileUri = contextUri instanceof vscode.Uri ? contextUri : vscode.window.activeTextEditor?.document.uri;
+        if (!fileUri || fileUri.scheme !== 'file') {
+            vscode.window.showErrorMessage('Open or select a file on disk to copy with its dependencies.');
+            return;
+        }
+
+        try {
+            if (await isLikelyBinary(fileUri)) {
+                vscode.window.showWarningMessage(`Skipped copying binary file: ${path.basename(fileUri.fsPath)}`);
+                return;
+            }
+            // Unsaved changes of an open file are copied and followed as well
+            const skipSummary = createSkipSummary();
+            const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.toString() === fileUri.toString());
+            const fileContent = document ? document.getText() : await readTextFile(fileUri, skipSummary);
+            if (fileContent === undefined) {
+                showMessageWithSkipReport(`Did not copy ${path.basename(fileUri.fsPath)}.`, skipSummary);
+                return;
+            }
+
+            const dependencies = await collectDependencies(fileUri, fileContent, createIgnoreFilter(), skipSummary);
+            const entries: ContentEntry[] = [
+                createContentEntry(fileUri, fileContent, document?.languageId),
+                ...dependencies.map(dependency => ({ ...createContentEntry(dependency.uri, dependency.content), note: dependency.reason })),
+            ];
+
+            const reviewedEntries = await reviewEntriesBeforeCopy(entries);
+            if (!reviewedEntries || reviewedEntries.length === 0) {
+                return;
+            }
+            const promptContent = await getPromptContent(reviewedEntries);
+            if (!promptContent) {
+                return;
+            }
+            const writeResult = await writePayload({ ...promptContent, entries: reviewedEntries, fullContentUris: [fileUri], command: 'Copy File With Dependencies' });
+            if (!writeResult) {
+                return;
+            }
+            const dependencyCount = reviewedEntries.filter(entry => entry.uri?.toString() !== fileUri.toString()).length
+                - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+            showMessageWithSkipReport(`Copied ${path.basename(fileUri.fsPath)} with ${Math.max(0, dependencyCount)} dependenc${dependencyCount === 1 ? 'y' : 'ies'} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+        } catch (error) {
+            console.error(`Failed to copy ${fileUri.fsPath} with dependencies: ${error}`);
+            vscode.window.showErrorMessage(`Failed to copy ${path.basename(fileUri.fsPath)} with its dependencies.`);
+        }
+    });
+
+    // Command: Copy the problems of the active file, the selected files or the workspace with the affected code
+    let copyProblemsWithContextDisposable = vscode.commands.registerCommand('llmCopier.copyProblemsWithContext', async (contextUri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+        let scopeUris: vscode.Uri[] | undefined;
+        let scopeDescription: string;
+        if (contextUri instanceof vscode.Uri) {
+            scopeUris = selectedUris && selectedUris.length > 0 ? selectedUris : [contextUri];
+            scopeDescription = scopeUris.length === 1 ? path.basename(scopeUris[0].fsPath) : `${scopeUris.length} selected items`;
+        } else {
+            const activeUri = vscode.window.activeTextEditor?.document.uri;
+            const choice = await vscode.window.showQuickPick([
+                ...(activeUri ? [{ label: '$(file) Active File', description: path.basename(activeUri.fsPath), uris: [activeUri] }] : []),
+                { label: '$(root-folder) Whole Workspace', description: '', uris: undefined },
+            ], { placeHolder: 'Copy the problems of' });
+            if (!choice) {
+                return;
+            }
+            scopeUris = choice.uris;
+            scopeDescription = choice.uris ? path.basename(choice.uris[0].fsPath) : 'the workspace';
+        }
+
+        const skipSummary = createSkipSummary();
+        const problems = await collectProblemEntries(scopeUris, skipSummary);
+        if (!problems) {
+            const minSeverity = vscode.workspace.getConfiguration('llmCopier').get<string>('problemsMinSeverity', 'warning');
+            vscode.window.showInformationMessage(`No problems of severity ${minSeverity} or higher in ${scopeDescription}.`);
+            return;
+        }
+
+        const promptContent = await getPromptContent(problems.entries);
+        if (!promptContent) {
+            return;
+        }
+        const writeResult = await writePayload({ ...promptContent, entries: problems.entries, command: 'Copy Problems With Context' });
+        if (writeResult) {
+            showMessageWithSkipReport(`Copied ${problems.problemCount} problem${problems.problemCount === 1 ? '' : 's'} in ${problems.fileCount} file${problems.fileCount === 1 ? '' : 's'} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
+        }
+    });
+
     // Command: Copy selected text from the active editor
     let copySelectedTextDisposable = vscode.commands.registerCommand('llmCopier.copySelectedText', async () => {
         let editor = vscode.window.activeTextEditor;
@@ -281,69 +407,26 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        let selection = editor.selection;
-        if (selection.isEmpty) {
+        // Every cursor's selection is copied, each with its file path and range
+        const entries = await createSelectionEntries(editor);
+        if (entries.length === 0) {
             vscode.window.showErrorMessage('No text selected.');
             return;
         }
 
-        let selectedText = editor.document.getText(selection);
-        
-        const promptContent = await getPromptFileContent();
-        let finalContentParts: string[] = [];
-        if (promptContent) {
-            finalContentParts.push(promptContent);
+        const promptContent = await getPromptContent(entries);
+        if (!promptContent) {
+            return;
         }
-        finalContentParts.push(`\`\`\`\n${selectedText}\n\`\`\`\n\n`); // This command's format is kept as original
-
-        await vscode.env.clipboard.writeText(finalContentParts.join(''));
-        vscode.window.showInformationMessage('Copied selected text to clipboard.');
-    });
-
-    /**
-     * Recursively reads files within a folder and formats their content.
-     * Skips binary files based on content inspection.
-     * @param folderUri The URI of the folder to read.
-     * @returns A promise that resolves to an array of formatted file content strings.
-     */
-    async function readFolderRecursively(folderUri: vscode.Uri): Promise<string[]> {
-        let contents: string[] = [];
-        try {
-            const entries = await vscode.workspace.fs.readDirectory(folderUri);
-
-            for (const [name, type] of entries) {
-                const entryUri = vscode.Uri.joinPath(folderUri, name);
-                
-                if (name === 'prompt.txt' && entryUri.fsPath === path.join(folderUri.fsPath, 'prompt.txt')) {
-                    continue; 
-                }
-
-                if (type === vscode.FileType.File) {
-                    if (await isLikelyBinary(entryUri)) {
-                        console.log(`Skipping binary file during recursive copy: ${entryUri.fsPath}`);
-                        vscode.window.showWarningMessage(`Skipped binary file: ${name}`);
-                        continue;
-                    }
-                    try {
-                        const fileContent = await fs.promises.readFile(entryUri.fsPath, 'utf8');
-                        contents.push(formatFileContentForClipboard(entryUri, fileContent));
-                    } catch (fileReadError) {
-                        console.error(`Failed to read file ${entryUri.fsPath}: ${fileReadError}`);
-                        vscode.window.showWarningMessage(`Could not read file ${name} in ${folderUri.fsPath}.`);
-                    }
-                } else if (type === vscode.FileType.Directory) {
-                    contents.push(...await readFolderRecursively(entryUri));
-                }
-            }
-        } catch (dirReadError) {
-            console.error(`Failed to read directory ${folderUri.fsPath}: ${dirReadError}`);
-            vscode.window.showErrorMessage(`Could not read directory ${path.basename(folderUri.fsPath)}. Check permissions.`);
+        const writeResult = await writePayload({ ...promptContent, entries, command: 'Copy Selected Text' });
+        if (writeResult) {
+            const selectionLabel = entries.length > 1 ? `${entries.length} selections` : 'selected text';
+            vscode.window.showInformationMessage(`Copied ${selectionLabel} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`);
         }
-        return contents;
-    }
+    });
 
-    // Command: Copy entire folder content recursively
-    let copyFolderContentDisposable = vscode.commands.registerCommand('llmCopier.copyFolderContent', async (contextUri: vscode.Uri, selectedUris: vscode.Uri[]) => {
+    // Copies entire folder content recursively, to the given output target or the configured one
+    const copyFolderContent = async (contextUri: vscode.Uri, selectedUris: vscode.Uri[], target?: OutputTarget | 'ask') => {
         let foldersToCopy: vscode.Uri[] = [];
 
         if (selectedUris && selectedUris.length > 0) {
@@ -358,11 +441,7 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         let allFilesCount = 0;
-        const allClipboardContent: string[] = [];
-        const promptContent = await getPromptFileContent();
-        if (promptContent) {
-            allClipboardContent.push(promptContent);
-        }
+        const allEntries: ContentEntry[] = [];
 
         const validFolders = await Promise.all(foldersToCopy.map(async (uri) => {
             try {
@@ -387,42 +466,64 @@ export function activate(context: vscode.ExtensionContext) {
             title: `Copying content from ${actualFoldersToProcess.length} folder(s)...`,
             cancellable: false
         }, async (progress) => {
+            const ignoreFilter = createIgnoreFilter();
+            const skipSummary = createSkipSummary();
             for (const folderUri of actualFoldersToProcess) {
                 progress.report({ message: `Collecting files from "${path.basename(folderUri.fsPath)}"...` });
-                const folderFiles = await readFolderRecursively(folderUri);
-                allClipboardContent.push(...folderFiles);
+                ignoreFilter.includeSelectedFolder(folderUri);
+                const folderFiles = await readFolderRecursively(folderUri, ignoreFilter, skipSummary);
+                allEntries.push(...folderFiles);
                 allFilesCount += folderFiles.length;
             }
 
             if (allFilesCount > 0) {
-                progress.report({ message: 'Copying to clipboard...' });
-                await vscode.env.clipboard.writeText(allClipboardContent.join(''));
-                vscode.window.showInformationMessage(`Copied ${allFilesCount} files from ${actualFoldersToProcess.length} folder${actualFoldersToProcess.length > 1 ? 's' : ''} to clipboard.`);
+                const reviewedEntries = await reviewEntriesBeforeCopy(allEntries);
+                if (!reviewedEntries || reviewedEntries.length === 0) {
+                    return;
+                }
+                progress.report({ message: 'Copying...' });
+                const treeRoots = getDirectoryTreeRoots(actualFoldersToProcess, true);
+                const header = (writtenEntries: ContentEntry[]) =>
+                    buildDirectoryTreeHeader(treeRoots, writtenEntries, ignoreFilter);
+                const promptContent = await getPromptContent(reviewedEntries);
+                if (!promptContent) {
+                    return;
+                }
+                const writeResult = await writePayload({ ...promptContent, header, entries: reviewedEntries, command: 'Copy Folder Content' }, target);
+                if (!writeResult) {
+                    return;
+                }
+                const copiedFilesCount = reviewedEntries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+                showMessageWithSkipReport(`Copied ${copiedFilesCount} files from ${actualFoldersToProcess.length} folder${actualFoldersToProcess.length > 1 ? 's' : ''} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
             } else {
-                vscode.window.showInformationMessage(`No readable, non-binary files found in selected folder(s) to copy.`);
+                showMessageWithSkipReport('No readable, non-binary files found in selected folder(s) to copy.', skipSummary);
             }
         });
-    });
+    };
+
+    // Command: Copy entire folder content recursively
+    let copyFolderContentDisposable = vscode.commands.registerCommand('llmCopier.copyFolderContent', (contextUri: vscode.Uri | CopyContextOptions, selectedUris: vscode.Uri[]) =>
+        isCopyContextOptions(contextUri) ? copyContextFromOptions(contextUri) : copyFolderContent(contextUri, selectedUris));
+
+    // Command: Copy entire folder content recursively, choosing the output target (clipboard, file, chunks or editor)
+    let copyFolderContentToDisposable = vscode.commands.registerCommand('llmCopier.copyFolderContentTo', (contextUri: vscode.Uri | CopyContextOptions, selectedUris: vscode.Uri[]) =>
+        isCopyContextOptions(contextUri) ? copyContextFromOptions(contextUri) : copyFolderContent(contextUri, selectedUris, 'ask'));
 
     // Command: Copy content of all currently open files
     let copyAllOpenFilesDisposable = vscode.commands.registerCommand('llmCopier.copyAllOpenFiles', async () => {
-        const openFilesToCopy: string[] = [];
-
-        const promptContent = await getPromptFileContent();
-        if (promptContent) {
-            openFilesToCopy.push(promptContent);
-        }
+        const openFilesToCopy: ContentEntry[] = [];
+        const skipSummary = createSkipSummary();
 
         let actualFilesCopiedCount = 0;
         for (const document of vscode.workspace.textDocuments) {
             if (document.uri.scheme === 'file' && !document.isUntitled) {
                 if (await isLikelyBinary(document.uri)) {
-                     vscode.window.showWarningMessage(`Skipped open binary file: ${path.basename(document.uri.fsPath)}`);
+                     recordSkip(skipSummary, 'binary file', document.uri);
                      continue;
                 }
                 try {
                     const fileContent = document.getText();
-                    openFilesToCopy.push(formatFileContentForClipboard(document.uri, fileContent));
+                    openFilesToCopy.push(createContentEntry(document.uri, fileContent, document.languageId));
                     actualFilesCopiedCount++;
                 } catch (error) {
                     console.error(`Failed to copy open file ${document.uri.fsPath}: ${error}`);
@@ -432,19 +533,25 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         if (actualFilesCopiedCount > 0) {
-            await vscode.env.clipboard.writeText(openFilesToCopy.join(''));
-            vscode.window.showInformationMessage(`Copied ${actualFilesCopiedCount} open file${actualFilesCopiedCount > 1 ? 's' : ''} to clipboard.`);
+            const reviewedEntries = await reviewEntriesBeforeCopy(openFilesToCopy);
+            if (!reviewedEntries || reviewedEntries.length === 0) {
+                return;
+            }
+            const promptContent = await getPromptContent(reviewedEntries);
+            if (!promptContent) {
+                return;
+            }
+            const writeResult = await writePayload({ ...promptContent, entries: reviewedEntries, command: 'Copy All Open Files Content' });
+            if (!writeResult) {
+                return;
+            }
+            actualFilesCopiedCount = reviewedEntries.length - writeResult.droppedEntries.length - writeResult.refusedEntries.length;
+            showMessageWithSkipReport(`Copied ${actualFilesCopiedCount} open file${actualFilesCopiedCount > 1 ? 's' : ''} ${describeWriteTarget(writeResult)} ${describeWriteResult(writeResult)}.`, skipSummary);
         } else {
-            vscode.window.showInformationMessage('No open, non-binary files found to copy.');
+            showMessageWithSkipReport('No open, non-binary files found to copy.', skipSummary);
         }
     });
 
-    // Command: Manually trigger updateRootFolderInConfig
-    let updateRootFolderConfigDisposable = vscode.commands.registerCommand('llmCopier.updateRootFolderConfig', async () => {
-        vscode.window.showInformationMessage('Updating AutoCodeApplier root folder configuration...');
-        await updateRootFolderInConfig();
-    });
-
     // Command: Toggle 'llmCopier.includePromptFile' setting
     let toggleIncludePromptFileDisposable = vscode.commands.registerCommand('llmCopier.toggleIncludePromptFile', async () => {
         const config = vscode.workspace.getConfiguration('llmCopier');
@@ -456,16 +563,88 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage(`'Include prompt.txt' is now set to: ${newSetting}`);
     });
 
+    // Command: Choose the default prompt template
+    let selectPromptTemplateDisposable = vscode.commands.registerCommand('llmCopier.selectPromptTemplate', async () => {
+        const templates = await listPromptTemplates();
+        const promptFileItem = { label: 'prompt.txt', description: 'project or global prompt.txt', name: '' };
+        const choice = await vscode.window.showQuickPick(
+            [...templates.map(template => ({ label: template.name, description: template.source, name: template.name })), promptFileItem],
+            { placeHolder: templates.length > 0 ? 'Default prompt template' : 'No templates found in .llmcopier/prompts/ or llmCopier.globalPromptsDirectory' }
+        );
+        if (!choice) {
+            return;
+        }
+        // Workspace settings need an open folder; without one the choice becomes the user default
+        const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('llmCopier').update('promptTemplate', choice.name, target);
+        vscode.window.showInformationMessage(`Default prompt template is now: ${choice.label}`);
+    });
+
+    // Commands: Copy git changes (working tree, staged, or against a branch/commit)
+    let copyWorkingTreeDiffDisposable = vscode.commands.registerCommand('llmCopier.copyWorkingTreeDiff', async () => {
+        await copyGitDiff(async () => ({ diffArgs: [], description: 'unstaged changes and untracked files', includeUntracked: true }));
+    });
+
+    let copyStagedDiffDisposable = vscode.commands.registerCommand('llmCopier.copyStagedDiff', async () => {
+        await copyGitDiff(async () => ({ diffArgs: ['--cached'], description: 'staged changes' }));
+    });
+
+    let copyBranchDiffDisposable = vscode.commands.registerCommand('llmCopier.copyBranchDiff', async () => {
+        await copyGitDiff(async (repositoryRoot) => {
+            const branches = await listBranches(repositoryRoot).catch(() => [] as string[]);
+            const otherRefItem = { label: '$(git-commit) Other branch, tag or commit...' };
+            const choice = await vscode.window.showQuickPick(
+                [...branches.map(branch => ({ label: branch })), otherRefItem],
+                { placeHolder: 'Compare the working tree against (from the merge base with HEAD)' }
+            );
+            const baseRef = choice === otherRefItem
+                ? await vscode.window.showInputBox({ prompt: 'Branch, tag or commit to diff against' })
+                : choice?.label;
+            if (!baseRef) {
+                return undefined;
+            }
+            const baseCommit = await resolveCommit(baseRef, repositoryRoot);
+            if (!baseCommit) {
+                vscode.window.showErrorMessage(`Not a branch, tag or commit: ${baseRef}`);
+                return undefined;
+            }
+            // Diff from the merge base, like a pull request, including uncommitted changes. Unrelated histories have
+            // no merge base, so those are diffed against the commit itself.
+            const mergeBase = await runGit(['merge-base', '--end-of-options', baseCommit, 'HEAD'], repositoryRoot).then(output => output.trim(), () => baseCommit);
+            return { diffArgs: ['--end-of-options', mergeBase], description: `changes against ${baseRef}` };
+        });
+    });
+
+    // Command: Apply an LLM response (file blocks or unified diffs) from the clipboard to the workspace
+    let applyResponseFromClipboardDisposable = vscode.commands.registerCommand('llmCopier.applyResponseFromClipboard', async () => {
+        try {
+            await applyResponseFromClipboard();
+        } catch (error) {
+            console.error(`Failed to apply response from clipboard: ${error}`);
+            vscode.window.showErrorMessage(`Failed to apply response from clipboard: ${error}`);
+        }
+    });
+
 
     context.subscriptions.push(
         copySelectedTextDisposable,
         copyFileNamesAndContentDisposable,
         copyOneFileDisposable,
+        copyFileWithDependenciesDisposable,
+        copyProblemsWithContextDisposable,
         copyFolderContentDisposable,
+        copyFolderContentToDisposable,
         copyAllOpenFilesDisposable,
-        updateRootFolderConfigDisposable,
-        toggleIncludePromptFileDisposable
+        toggleIncludePromptFileDisposable,
+        selectPromptTemplateDisposable,
+        copyWorkingTreeDiffDisposable,
+        copyStagedDiffDisposable,
+        copyBranchDiffDisposable,
+        applyResponseFromClipboardDisposable
     );
+
+    // Programmatic API for other extensions, the vscode:// URI handler and the "Copy Context" command
+    return registerApi(context);
 }
 
 export function deactivate() { }
\ No newline at end of file
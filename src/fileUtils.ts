@@ -1,9 +1,12 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ContentEntry, formatEntries } from './outputFormats';
+import { getConfiguredEncoding, detectEncoding, isUtf16Text, decodeText } from './encoding';
 
 /**
  * Checks if a file is likely a binary file by inspecting its first bytes for null characters.
+ * UTF-16 text (with a byte order mark, in the pattern of UTF-16 zero bytes, or per 'files.encoding') is not binary.
  * This is a heuristic and not 100% foolproof but effective for most common cases.
  * @param fileUri The URI of the file to check.
  * @returns A promise that resolves to true if the file is likely binary, false otherwise.
@@ -28,6 +31,11 @@ export async function isLikelyBinary(fileUri: vscode.Uri): Promise<boolean> {
             return false;
         }
 
+        // UTF-16 text has a zero byte in every ASCII-range character
+        if (isUtf16Text(buffer.subarray(0, bytesRead))) {
+            return false;
+        }
+
         // Check for the existence of a null byte, which is a strong indicator of a binary file.
         // Most text file encodings (like ASCII, UTF-8) do not use null bytes for character representation.
         for (let i = 0; i < bytesRead; i++) {
@@ -38,10 +46,9 @@ export async function isLikelyBinary(fileUri: vscode.Uri): Promise<boolean> {
 
         return false; // No null bytes found in the initial chunk.
     } catch (error) {
-        console.error(`Error checking if file is binary: ${filePath}. Assuming it is.`, error);
-        // Be conservative: if we can't read it for some reason (e.g., permissions),
-        // it's safer to treat it as binary and skip it.
-        return true;
+        // Not a verdict on the content: reading the file fails as well and reports it as unreadable
+        console.error(`Error checking if file is binary: ${filePath}.`, error);
+        return false;
     } finally {
         await fileHandle?.close();
     }
@@ -64,8 +71,9 @@ export function getWorkspaceRootForUri(fileUri: vscode.Uri): vscode.Uri | undefi
         const workspacePath = workspaceFolder.uri.fsPath;
         const filePath = fileUri.fsPath;
 
-        // Ensure path is within the workspace and normalize
-        if (filePath.startsWith(workspacePath)) {
+        // Ensure path is within the workspace; a plain prefix check would also match siblings like /app2 for /app
+        const relativePath = path.relative(workspacePath, filePath);
+        if (relativePath === '' || (relativePath !== '..' && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath))) {
             if (workspacePath.length > longestPath) {
                 bestMatch = workspaceFolder.uri;
                 longestPath = workspacePath.length;
@@ -98,14 +106,305 @@ export function getRelativePathString(fileUri: vscode.Uri, workspaceRootUri: vsc
 }
 
 /**
- * Formats file content with its path for clipboard use.
+ * Maps common file extensions to VS Code language ids, for files that are not open in an editor.
+ * Extensions not listed here are used as-is, e.g. "go" or "sql".
+ */
+const EXTENSION_LANGUAGE_IDS: Record<string, string> = {
+    ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'typescriptreact',
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'javascriptreact',
+    py: 'python', rb: 'ruby', rs: 'rust', kt: 'kotlin', kts: 'kotlin', cs: 'csharp',
+    cpp: 'cpp', cc: 'cpp', cxx: 'cpp', hpp: 'cpp', hh: 'cpp', h: 'c',
+    sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', ps1: 'powershell', psm1: 'powershell',
+    md: 'markdown', markdown: 'markdown', yml: 'yaml', jsonc: 'jsonc', htm: 'html',
+    txt: 'plaintext', gitignore: 'ignore', llmcopierignore: 'ignore',
+};
+
+/**
+ * Determines the language hint for a file, used as the code fence language.
+ * @param fileUri The URI of the file.
+ * @param languageId The VS Code language id of the open document, if known.
+ * @returns The document's language id, otherwise a language id derived from the file extension
+ *          (or the extension itself), or an empty string for plain text files.
+ */
+export function getLanguageForUri(fileUri: vscode.Uri, languageId?: string): string {
+    if (languageId && languageId !== 'plaintext') {
+        return languageId;
+    }
+    const fileName = path.basename(fileUri.fsPath).toLowerCase();
+    const extension = fileName.startsWith('.') && !fileName.slice(1).includes('.')
+        ? fileName.slice(1)
+        : path.extname(fileName).slice(1);
+    const language = EXTENSION_LANGUAGE_IDS[extension] ?? extension;
+    return language === 'plaintext' ? '' : language;
+}
+
+/**
+ * Creates a content entry for a file, with its path relative to the project root if the file is within a workspace,
+ * otherwise an absolute path.
+ * @param fileUri The URI of the file.
+ * @param fileContent The content of the file.
+ * @param languageId The VS Code language id of the open document, if known.
+ */
+export function createContentEntry(fileUri: vscode.Uri, fileContent: string, languageId?: string): ContentEntry {
+    const workspaceRootUri = getWorkspaceRootForUri(fileUri);
+    return {
+        path: getRelativePathString(fileUri, workspaceRootUri),
+        language: getLanguageForUri(fileUri, languageId),
+        content: fileContent,
+        uri: fileUri,
+    };
+}
+
+/**
+ * Prefixes entry paths with their workspace folder name (e.g. "api/src/app.ts") when the entries come from more than one
+ * workspace folder of a multi-root workspace, so paths from different roots cannot be confused.
+ * @param entries The entries of a copy.
+ * @returns The entries with qualified paths, or the same entries if they all come from one workspace folder.
+ */
+export function qualifyPathsAcrossWorkspaceFolders(entries: ContentEntry[]): ContentEntry[] {
+    const folders = entries.map(entry => {
+        const rootUri = entry.uri && getWorkspaceRootForUri(entry.uri);
+        return rootUri && vscode.workspace.workspaceFolders?.find(folder => folder.uri.fsPath === rootUri.fsPath);
+    });
+    if (new Set(folders.map(folder => folder?.name).filter(name => name)).size < 2) {
+        return entries;
+    }
+    return entries.map((entry, index) => {
+        const folder = folders[index];
+        return folder ? { ...entry, path: path.join(folder.name, entry.path) } : entry;
+    });
+}
+
+/**
+ * Formats file content with its path for clipboard use, in the format selected by 'llmCopier.outputFormat'.
  * The path is relative to the project root if the file is within a workspace, otherwise it's an absolute path.
  * @param fileUri The URI of the file.
  * @param fileContent The content of the file.
- * @returns A formatted string: "#### FILE: <relative_or_absolute_path>\n```\n{content}\n```\n\n"
+ * @returns A formatted string, by default: "#### FILE: <relative_or_absolute_path>\n```<language>\n{content}\n```\n\n",
+ *          where the fence grows longer if the content itself contains backtick runs.
  */
 export function formatFileContentForClipboard(fileUri: vscode.Uri, fileContent: string): string {
-    const workspaceRootUri = getWorkspaceRootForUri(fileUri);
-    const pathString = getRelativePathString(fileUri, workspaceRootUri);
-    return `#### FILE: ${pathString}\n\`\`\`\n${fileContent}\n\`\`\`\n\n`;
-}
\ No newline at end of file
+    return formatEntries([createContentEntry(fileUri, fileContent)]);
+}
+
+/**
+ * Formats a byte count for display, e.g. "512 B", "12.3 KB" or "4.5 MB".
+ */
+export function formatByteSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Whether the content looks minified or generated on one line: a ".min." file name, a line of more than
+ * 10,000 characters, or lines averaging more than 500 characters.
+ */
+function isLikelyMinified(fileUri: vscode.Uri, content: string): boolean {
+    if (/\.min\.[a-z]+$/i.test(fileUri.fsPath)) {
+        return true;
+    }
+    if (content.length < 2000) {
+        return false;
+    }
+    const lines = content.split('\n');
+    return content.length / lines.length > 500 || lines.some(line => line.length > 10000);
+}
+
+/**
+ * Reads the head and the tail of a file, each cut at a line boundary, around a truncation marker.
+ */
+async function readHeadAndTail(fileHandle: fs.promises.FileHandle, size: number, bomLength: number, encoding: string, maxFileSize: number): Promise<string> {
+    // UTF-16 code units must not be split
+    const unitSize = encoding.startsWith('utf-16') ? 2 : 1;
+    const halfSize = Math.floor(maxFileSize / 2 / unitSize) * unitSize;
+    const head = Buffer.alloc(halfSize);
+    const tail = Buffer.alloc(halfSize);
+    await fileHandle.read(head, 0, halfSize, bomLength);
+    await fileHandle.read(tail, 0, halfSize, size - halfSize);
+
+    const headText = decodeText(head, encoding);
+    const tailText = decodeText(tail, encoding);
+    const headEnd = headText.lastIndexOf('\n');
+    const tailStart = tailText.indexOf('\n');
+    const keptHead = headEnd === -1 ? headText : headText.slice(0, headEnd + 1);
+    const keptTail = tailStart === -1 ? tailText : tailText.slice(tailStart + 1);
+    const marker = `[... truncated: about ${formatByteSize(size - 2 * halfSize)} of ${formatByteSize(size)} omitted (llmCopier.maxFileSize is ${formatByteSize(maxFileSize)}) ...]`;
+    return `${keptHead}${keptHead.endsWith('\n') ? '' : '\n'}${marker}\n${keptTail}`;
+}
+
+/**
+ * Reads a file for copying. The encoding is detected from its byte order mark or UTF-16 zero bytes, and otherwise
+ * taken from VS Code's 'files.encoding'. Files larger than 'llmCopier.maxFileSize' are cut to their head and tail
+ * around a truncation marker, or skipped if 'llmCopier.largeFileHandling' is "skip"; minified files are skipped
+ * if 'llmCopier.skipMinifiedFiles' is enabled. Skipped and truncated files are recorded with the reason.
+ * @param fileUri The file to read.
+ * @param skipSummary Records the files skipped or truncated by the size and minified-file policies.
+ * @returns The decoded content, or undefined if the file was skipped.
+ * @throws If the file cannot be read.
+ */
+export async function readTextFile(fileUri: vscode.Uri, skipSummary: SkipSummary): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const maxFileSize = Math.max(0, config.get<number>('maxFileSize', 1024)) * 1024;
+    const skipMinified = config.get<boolean>('skipMinifiedFiles', true);
+
+    if (skipMinified && /\.min\.[a-z]+$/i.test(fileUri.fsPath)) {
+        recordSkip(skipSummary, 'minified file', fileUri);
+        return undefined;
+    }
+
+    const fileHandle = await fs.promises.open(fileUri.fsPath, 'r');
+    try {
+        const { size } = await fileHandle.stat();
+        const sample = Buffer.alloc(Math.min(size, 1024));
+        await fileHandle.read(sample, 0, sample.length, 0);
+        const { encoding, bomLength } = detectEncoding(sample, getConfiguredEncoding(fileUri));
+
+        let content: string;
+        if (maxFileSize > 0 && size - bomLength > maxFileSize) {
+            if (config.get<string>('largeFileHandling', 'truncate') === 'skip') {
+                recordSkip(skipSummary, `larger than ${formatByteSize(maxFileSize)}`, fileUri);
+                return undefined;
+            }
+            content = await readHeadAndTail(fileHandle, size, bomLength, encoding, maxFileSize);
+            if (!(skipMinified && isLikelyMinified(fileUri, content))) {
+                recordTruncation(skipSummary, `larger than ${formatByteSize(maxFileSize)}`, fileUri);
+            }
+        } else {
+            content = decodeText((await fileHandle.readFile()).subarray(bomLength), encoding);
+        }
+
+        if (skipMinified && isLikelyMinified(fileUri, content)) {
+            recordSkip(skipSummary, 'minified file', fileUri);
+            return undefined;
+        }
+        return content;
+    } finally {
+        await fileHandle.close();
+    }
+}
+
+/**
+ * Tracks entries skipped during a copy operation, grouped by the reason they were skipped.
+ */
+export interface SkipSummary {
+    total: number;
+    byReason: Map<string, number>;
+    /** Workspace-relative paths of the skipped entries, per reason, for the skip report. */
+    pathsByReason: Map<string, string[]>;
+    /** Workspace-relative paths of files copied only partly, per reason, for the skip report. */
+    truncatedPathsByReason: Map<string, string[]>;
+}
+
+export function createSkipSummary(): SkipSummary {
+    return { total: 0, byReason: new Map<string, number>(), pathsByReason: new Map<string, string[]>(), truncatedPathsByReason: new Map<string, string[]>() };
+}
+
+/**
+ * Records a skipped entry under the given reason.
+ * @param summary The summary to update.
+ * @param reason A short description of why the entry was skipped, e.g. the excluding ignore rule.
+ * @param skippedUri The skipped file or folder, listed in the skip report.
+ */
+export function recordSkip(summary: SkipSummary, reason: string, skippedUri?: vscode.Uri): void {
+    summary.total++;
+    summary.byReason.set(reason, (summary.byReason.get(reason) ?? 0) + 1);
+    if (skippedUri) {
+        const paths = summary.pathsByReason.get(reason) ?? [];
+        paths.push(getRelativePathString(skippedUri, getWorkspaceRootForUri(skippedUri)).split(path.sep).join('/'));
+        summary.pathsByReason.set(reason, paths);
+    }
+}
+
+/**
+ * Records a file that is copied, but only partly.
+ * @param summary The summary to update.
+ * @param reason Why the file was cut, e.g. "larger than 1.0 MB".
+ * @param truncatedUri The truncated file, listed in the skip report.
+ */
+export function recordTruncation(summary: SkipSummary, reason: string, truncatedUri: vscode.Uri): void {
+    const paths = summary.truncatedPathsByReason.get(reason) ?? [];
+    paths.push(getRelativePathString(truncatedUri, getWorkspaceRootForUri(truncatedUri)).split(path.sep).join('/'));
+    summary.truncatedPathsByReason.set(reason, paths);
+}
+
+/**
+ * Describes a skip summary in one line, listing the most frequent reasons first.
+ * @param summary The summary to describe.
+ * @param maxReasons The maximum number of reasons to list before abbreviating.
+ * @returns A string like "Skipped 3 items: node_modules/ (.gitignore:1) ×2, ... Truncated 1 file: larger than 1.0 MB ×1.",
+ *          or an empty string if nothing was skipped or truncated.
+ */
+export function describeSkipSummary(summary: SkipSummary, maxReasons = 3): string {
+    const parts: string[] = [];
+    if (summary.total > 0) {
+        const reasons = [...summary.byReason.entries()].sort((a, b) => b[1] - a[1]);
+        const listed = reasons.slice(0, maxReasons).map(([reason, count]) => `${reason} ×${count}`);
+        if (reasons.length > maxReasons) {
+            listed.push(`${reasons.length - maxReasons} more rule${reasons.length - maxReasons > 1 ? 's' : ''}`);
+        }
+        parts.push(`Skipped ${summary.total} item${summary.total > 1 ? 's' : ''}: ${listed.join(', ')}.`);
+    }
+    const truncated = [...summary.truncatedPathsByReason.entries()];
+    const truncatedCount = truncated.reduce((sum, [, paths]) => sum + paths.length, 0);
+    if (truncatedCount > 0) {
+        parts.push(`Truncated ${truncatedCount} file${truncatedCount > 1 ? 's' : ''}: ${truncated.map(([reason, paths]) => `${reason} ×${paths.length}`).join(', ')}.`);
+    }
+    return parts.join(' ');
+}
+
+let skipReportChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Creates the "LLM Code Copier" output channel of the skip reports, disposed with the extension.
+ */
+export function registerSkipReportChannel(context: vscode.ExtensionContext): void {
+    const channel = vscode.window.createOutputChannel('LLM Code Copier');
+    skipReportChannel = channel;
+    context.subscriptions.push(channel, {
+        dispose: () => {
+            if (skipReportChannel === channel) {
+                skipReportChannel = undefined;
+            }
+        },
+    });
+}
+
+/**
+ * Writes the skipped paths, grouped by reason, to the "LLM Code Copier" output channel and reveals it.
+ */
+function showSkipReport(summary: SkipSummary): void {
+    const channel = skipReportChannel;
+    if (!channel) {
+        console.warn('The skip report channel is not available before activation.');
+        return;
+    }
+    channel.appendLine(`[${new Date().toLocaleTimeString()}] ${describeSkipSummary(summary, Number.MAX_SAFE_INTEGER)}`);
+    for (const [reason, paths] of summary.pathsByReason) {
+        channel.appendLine(`  ${reason}:`);
+        paths.forEach(skippedPath => channel.appendLine(`    ${skippedPath}`));
+    }
+    for (const [reason, paths] of summary.truncatedPathsByReason) {
+        channel.appendLine(`  truncated, ${reason}:`);
+        paths.forEach(truncatedPath => channel.appendLine(`    ${truncatedPath}`));
+    }
+    channel.show(true);
+}
+
+/**
+ * Shows a copy's result message followed by its skip summary. Instead of one notification per skipped file,
+ * a "Show Skipped Items" button opens one aggregated report of everything that was skipped.
+ * @param message The result message, e.g. "Copied 3 files to clipboard (~1.2k tokens)."
+ * @param summary The skip summary of the copy.
+ */
+export async function showMessageWithSkipReport(message: string, summary: SkipSummary): Promise<void> {
+    const showSkipped = 'Show Skipped Items';
+    const choice = await vscode.window.showInformationMessage(
+        `${message} ${describeSkipSummary(summary)}`.trim(),
+        ...(summary.pathsByReason.size > 0 || summary.truncatedPathsByReason.size > 0 ? [showSkipped] : [])
+    );
+    if (choice === showSkipped) {
+        showSkipReport(summary);
+    }
+}
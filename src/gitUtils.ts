@@ -0,0 +1,90 @@
+import { execFile } from 'child_process';
+
+/**
+ * Runs the local git CLI.
+ * @param args The git arguments, e.g. ['rev-parse', '--abbrev-ref', 'HEAD'].
+ * @param cwd The directory to run git in.
+ * @returns The standard output.
+ * @throws {Error} If git is not installed, the directory is not a repository, or the command fails.
+ */
+export function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Returns the current branch name, or the short commit hash on a detached HEAD.
+ * @param cwd A directory inside the repository.
+ * @returns The branch, or undefined if the directory is not in a git repository.
+ */
+export async function getCurrentBranch(cwd: string): Promise<string | undefined> {
+    try {
+        const branch = (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+        return branch === 'HEAD' ? (await runGit(['rev-parse', '--short', 'HEAD'], cwd)).trim() : branch;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the top-level folder of the repository containing the given directory.
+ * @returns The absolute path, or undefined if the directory is not in a git repository.
+ */
+export async function getRepositoryRoot(cwd: string): Promise<string | undefined> {
+    try {
+        return (await runGit(['rev-parse', '--show-toplevel'], cwd)).trim();
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Resolves a user-supplied branch, tag or commit to a commit hash. The ref is passed after `--end-of-options`,
+ * so a ref starting with "-" is never read as an option.
+ * @returns The full commit hash, or undefined if the ref does not name a commit.
+ */
+export async function resolveCommit(ref: string, cwd: string): Promise<string | undefined> {
+    try {
+        return (await runGit(['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`], cwd)).trim() || undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Lists local and remote branch names, most recently committed first.
+ */
+export async function listBranches(cwd: string): Promise<string[]> {
+    const output = await runGit(['for-each-ref', '--sort=-committerdate', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'], cwd);
+    return output.split('\n').map(line => line.trim()).filter(line => line && !line.endsWith('/HEAD'));
+}
+
+/**
+ * Returns the diff and the touched files for the given `git diff` arguments.
+ * @param diffArgs Arguments after `git diff`, e.g. ['--cached'], or ['--end-of-options', commit] for a commit.
+ * @param repositoryRoot The repository's top-level folder.
+ * @returns The unified diff, and the repository-relative paths of files that still exist after the change.
+ */
+export async function getDiff(diffArgs: string[], repositoryRoot: string): Promise<{ diff: string; changedPaths: string[] }> {
+    const diff = await runGit(['diff', '--no-color', '--no-ext-diff', ...diffArgs], repositoryRoot);
+    // -z lists the paths verbatim, while the default output quotes and escapes unusual characters (core.quotePath)
+    const names = await runGit(['diff', '--name-only', '-z', '--diff-filter=d', ...diffArgs], repositoryRoot);
+    return { diff, changedPaths: names.split('\0').filter(name => name) };
+}
+
+/**
+ * Lists the untracked files that are not ignored, which `git diff` leaves out.
+ * @param repositoryRoot The repository's top-level folder.
+ * @returns Repository-relative paths.
+ */
+export async function listUntrackedFiles(repositoryRoot: string): Promise<string[]> {
+    const names = await runGit(['ls-files', '--others', '--exclude-standard', '-z'], repositoryRoot);
+    return names.split('\0').filter(name => name);
+}
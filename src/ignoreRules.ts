@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getWorkspaceRootForUri } from './fileUtils';
+
+/**
+ * A single parsed line of a gitignore-style file.
+ */
+export interface IgnoreRule {
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+    /** Human readable origin, e.g. "src/.gitignore:3 (dist/)". */
+    source: string;
+}
+
+/**
+ * Decides whether entries encountered while collecting files should be skipped.
+ */
+export interface IgnoreFilter {
+    /**
+     * Finds the rule that excludes the given entry, checking its ancestor folders as well.
+     * @param uri The URI of the file or folder.
+     * @param isDirectory Whether the entry is a folder (directory-only rules such as "out/" need this).
+     * @returns A description of the excluding rule, or undefined if the entry should be copied.
+     */
+    getExcludingRule(uri: vscode.Uri, isDirectory: boolean): Promise<string | undefined>;
+    /**
+     * Copies an explicitly selected folder even if the ignore rules exclude it or one of its ancestors, the way
+     * a single selected file is always copied. The rules still apply to the files and subfolders inside it.
+     * @param folderUri The selected folder.
+     */
+    includeSelectedFolder(folderUri: vscode.Uri): void;
+}
+
+const IGNORE_FILE_NAMES = ['.gitignore', '.llmcopierignore'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Converts a glob into a regular expression source matching slash-separated relative paths.
+ * Supports `*`, `?`, `**`, character classes and, when `allowBraces` is set, `{a,b}` alternation
+ * (used by VS Code's `files.exclude`, but not by gitignore).
+ */
+export function globToRegExpSource(glob: string, allowBraces = false): string {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                const atSegmentStart = i === 0 || glob[i - 1] === '/';
+                if (atSegmentStart && glob[i + 2] === '/') {
+                    // "**/" matches zero or more leading folders
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = glob.indexOf(']', i + 2);
+            if (close === -1) {
+                source += '\\[';
+            } else {
+                let charClass = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+                if (charClass.startsWith('!')) {
+                    charClass = '^' + charClass.slice(1);
+                }
+                source += `[${charClass}]`;
+                i = close;
+            }
+        } else if (char === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[i + 1]);
+            i++;
+        } else if (allowBraces && char === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (allowBraces && char === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (allowBraces && char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return source;
+}
+
+/**
+ * Parses the content of a gitignore-style file.
+ * @param content The raw file content.
+ * @param sourceLabel Label used to describe where a rule came from, e.g. "src/.gitignore".
+ * @returns The parsed rules, in file order.
+ */
+export function parseIgnoreFile(content: string, sourceLabel: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    const lines = content.split(/\r?\n/);
+
+    lines.forEach((rawLine, index) => {
+        // Trailing whitespace is ignored unless escaped
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) {
+            return;
+        }
+
+        let negate = false;
+        if (line.startsWith('!')) {
+            negate = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+
+        let dirOnly = false;
+        if (line.endsWith('/')) {
+            dirOnly = true;
+            line = line.replace(/\/+$/, '');
+        }
+        if (!line) {
+            return;
+        }
+
+        // A slash at the beginning or in the middle anchors the pattern to the ignore file's folder
+        const anchored = line.includes('/');
+        line = line.replace(/^\/+/, '');
+
+        const body = globToRegExpSource(line);
+        const regex = new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`);
+        rules.push({ regex, negate, dirOnly, source: `${sourceLabel}:${index + 1} (${rawLine.trim()})` });
+    });
+
+    return rules;
+}
+
+/**
+ * Returns the last rule matching the path, gitignore style, so later negations win.
+ */
+export function findLastMatchingRule(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    let match: IgnoreRule | undefined = undefined;
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDirectory) {
+            continue;
+        }
+        if (rule.regex.test(relativePath)) {
+            match = rule;
+        }
+    }
+    return match;
+}
+
+/**
+ * Creates an ignore filter honoring, in order:
+ * 1. `llmCopier.excludePatterns` (gitignore syntax, relative to the workspace root)
+ * 2. VS Code's `files.exclude` (if `llmCopier.respectFilesExclude` is enabled)
+ * 3. Nested `.gitignore` files (if `llmCopier.respectGitignore` is enabled) and `.llmcopierignore` files,
+ *    where deeper files take precedence and `.llmcopierignore` can re-include with `!pattern`.
+ * The filter caches loaded ignore files, so create one per copy operation.
+ */
+export function createIgnoreFilter(): IgnoreFilter {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const respectGitignore = config.get<boolean>('respectGitignore', true);
+    const respectFilesExclude = config.get<boolean>('respectFilesExclude', true);
+    const excludePatterns = config.get<string[]>('excludePatterns', []);
+
+    const globalRules = parseIgnoreFile(excludePatterns.join('\n'), 'llmCopier.excludePatterns');
+    const directoryRulesCache = new Map<string, Promise<IgnoreRule[]>>();
+    const filesExcludeCache = new Map<string, { glob: string; regex: RegExp }[]>();
+    const verdictCache = new Map<string, string | undefined>();
+
+    function getFilesExcludeGlobs(rootUri: vscode.Uri): { glob: string; regex: RegExp }[] {
+        let globs = filesExcludeCache.get(rootUri.fsPath);
+        if (!globs) {
+            globs = [];
+            const filesExclude = vscode.workspace.getConfiguration('files', rootUri).get<Record<string, unknown>>('exclude', {});
+            for (const [glob, enabled] of Object.entries(filesExclude)) {
+                // Conditional entries ({ "when": ... }) depend on sibling files; only plain `true` entries are honored
+                if (enabled === true) {
+                    globs.push({ glob, regex: new RegExp(`^${globToRegExpSource(glob.replace(/^\/+/, ''), true)}$`) });
+                }
+            }
+            filesExcludeCache.set(rootUri.fsPath, globs);
+        }
+        return globs;
+    }
+
+    function loadDirectoryRules(dirUri: vscode.Uri, rootUri: vscode.Uri): Promise<IgnoreRule[]> {
+        let rules = directoryRulesCache.get(dirUri.fsPath);
+        if (!rules) {
+            rules = (async () => {
+                const loaded: IgnoreRule[] = [];
+                for (const fileName of IGNORE_FILE_NAMES) {
+                    if (fileName === '.gitignore' && !respectGitignore) {
+                        continue;
+                    }
+                    const ignoreFileUri = vscode.Uri.joinPath(dirUri, fileName);
+                    try {
+                        const contentBuffer = await vscode.workspace.fs.readFile(ignoreFileUri);
+                        const label = path.relative(rootUri.fsPath, ignoreFileUri.fsPath).split(path.sep).join('/');
+                        loaded.push(...parseIgnoreFile(Buffer.from(contentBuffer).toString('utf8'), label));
+                    } catch (error) {
+                        // No ignore file in this folder
+                    }
+                }
+                return loaded;
+            })();
+            directoryRulesCache.set(dirUri.fsPath, rules);
+        }
+        return rules;
+    }
+
+    async function checkEntry(uri: vscode.Uri, isDirectory: boolean, rootUri: vscode.Uri): Promise<string | undefined> {
+        const relativePath = path.relative(rootUri.fsPath, uri.fsPath).split(path.sep).join('/');
+
+        const globalMatch = findLastMatchingRule(globalRules, relativePath, isDirectory);
+        if (globalMatch && !globalMatch.negate) {
+            return globalMatch.source;
+        }
+
+        if (respectFilesExclude) {
+            for (const { glob, regex } of getFilesExcludeGlobs(rootUri)) {
+                if (regex.test(relativePath)) {
+                    return `files.exclude (${glob})`;
+                }
+            }
+        }
+
+        // Walk from the root down to the entry's parent, testing each folder's rules relative to that folder
+        const segments = relativePath.split('/');
+        let match: IgnoreRule | undefined = undefined;
+        let dirUri = rootUri;
+        for (let depth = 0; depth < segments.length; depth++) {
+            const rules = await loadDirectoryRules(dirUri, rootUri);
+            const pathFromDir = segments.slice(depth).join('/');
+            match = findLastMatchingRule(rules, pathFromDir, isDirectory) ?? match;
+            dirUri = vscode.Uri.joinPath(dirUri, segments[depth]);
+        }
+
+        return match && !match.negate ? match.source : undefined;
+    }
+
+    return {
+        async getExcludingRule(uri: vscode.Uri, isDirectory: boolean): Promise<string | undefined> {
+            const rootUri = getWorkspaceRootForUri(uri) ?? vscode.Uri.file(path.dirname(uri.fsPath));
+            const relativePath = path.relative(rootUri.fsPath, uri.fsPath);
+            if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+                return undefined;
+            }
+
+            // A file inside an ignored folder is ignored too, and gitignore cannot re-include it
+            const segments = relativePath.split(path.sep);
+            let ancestorUri = rootUri;
+            for (let i = 0; i < segments.length - 1; i++) {
+                ancestorUri = vscode.Uri.joinPath(ancestorUri, segments[i]);
+                const key = `dir:${ancestorUri.fsPath}`;
+                if (!verdictCache.has(key)) {
+                    verdictCache.set(key, await checkEntry(ancestorUri, true, rootUri));
+                }
+                const ancestorRule = verdictCache.get(key);
+                if (ancestorRule) {
+                    return ancestorRule;
+                }
+            }
+
+            return checkEntry(uri, isDirectory, rootUri);
+        },
+
+        includeSelectedFolder(folderUri: vscode.Uri): void {
+            const rootUri = getWorkspaceRootForUri(folderUri);
+            const relativePath = rootUri ? path.relative(rootUri.fsPath, folderUri.fsPath) : '';
+            if (!rootUri || !relativePath || relativePath.startsWith('..')) {
+                return;
+            }
+            // Clearing the cached verdicts of the folder and its ancestors keeps them from excluding its contents
+            let ancestorUri = rootUri;
+            for (const segment of relativePath.split(path.sep)) {
+                ancestorUri = vscode.Uri.joinPath(ancestorUri, segment);
+                verdictCache.set(`dir:${ancestorUri.fsPath}`, undefined);
+            }
+        }
+    };
+}
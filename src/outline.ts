@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import { ContentEntry } from './outputFormats';
+
+export type CompressionMode = 'none' | 'outline' | 'hybrid';
+
+/**
+ * Symbol kinds whose bodies are elided; classes, interfaces and namespaces keep their members.
+ */
+const BODY_SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+]);
+
+/**
+ * Languages whose function bodies are delimited by braces.
+ */
+const BRACE_LANGUAGES = new Set([
+    'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'java', 'csharp', 'go', 'rust',
+    'c', 'cpp', 'kotlin', 'swift', 'php', 'scala', 'dart',
+]);
+
+/**
+ * A signature line opening a body: "...) {", "...): Promise<void> {", "...) -> Result<()> {", "...) => {",
+ * and Go's "...) error {" and "...) (int, error) {".
+ */
+const FUNCTION_HEADER_PATTERN = /\)\s*(?:(?::|->|throws\b)[^{;]*?|[\w.*[\]]+|\([^(){};]*\))?\s*(?:=>\s*)?\{$/;
+
+const CONTROL_STATEMENT_PATTERN = /^(?:\}\s*)?(?:if|else|for|foreach|while|do|switch|catch|try|finally|with|using|lock|synchronized|match)\b/;
+
+/**
+ * A run of lines to replace with the elision marker.
+ */
+interface Elision {
+    /** First elided line. */
+    startLine: number;
+    /** Last elided line. */
+    endLine: number;
+    replacement: string[];
+}
+
+function getIndentation(line: string): string {
+    return line.match(/^\s*/)![0];
+}
+
+/**
+ * Walks the code characters of brace-delimited source from a position, skipping string literals and comments.
+ * @param visit Called for each code character; returning true stops the walk.
+ */
+function scanCode(lines: string[], startLine: number, startCharacter: number, visit: (char: string, line: number, character: number) => boolean): void {
+    let quote: string | undefined;
+    let inBlockComment = false;
+    for (let line = startLine; line < lines.length; line++) {
+        const text = lines[line];
+        for (let character = line === startLine ? startCharacter : 0; character < text.length; character++) {
+            const char = text[character];
+            if (inBlockComment) {
+                if (char === '*' && text[character + 1] === '/') {
+                    inBlockComment = false;
+                    character++;
+                }
+            } else if (quote) {
+                if (char === '\\') {
+                    character++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (char === '/' && text[character + 1] === '/') {
+                break;
+            } else if (char === '/' && text[character + 1] === '*') {
+                inBlockComment = true;
+                character++;
+            } else if (char === '"' || char === '\'' || char === '`') {
+                quote = char;
+            } else if (visit(char, line, character)) {
+                return;
+            }
+        }
+        // Only template literals span lines; this also recovers from quotes that are not strings, like Rust lifetimes
+        if (quote !== '`') {
+            quote = undefined;
+        }
+    }
+}
+
+/**
+ * Finds the brace opening a body after a signature: the first "{" outside parentheses and brackets,
+ * so default values like `(options = {})` are skipped.
+ * @returns The brace position, or undefined if a ";" ends the declaration first (abstract methods, overloads).
+ */
+function findBodyStart(lines: string[], line: number, character: number): { line: number; character: number } | undefined {
+    let depth = 0;
+    let found: { line: number; character: number } | undefined;
+    scanCode(lines, line, character, (char, charLine, charCharacter) => {
+        if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (depth <= 0 && char === ';') {
+            return true;
+        } else if (depth <= 0 && char === '{') {
+            found = { line: charLine, character: charCharacter };
+            return true;
+        }
+        return false;
+    });
+    return found;
+}
+
+function findMatchingBrace(lines: string[], line: number, character: number): { line: number; character: number } | undefined {
+    let depth = 0;
+    let found: { line: number; character: number } | undefined;
+    scanCode(lines, line, character, (char, charLine, charCharacter) => {
+        if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            found = { line: charLine, character: charCharacter };
+            return true;
+        }
+        return false;
+    });
+    return found;
+}
+
+/**
+ * Elides the body between an opening brace and its match, keeping the closing line from the brace on.
+ */
+function elideBraceBody(lines: string[], openLine: number, openCharacter: number): Elision | undefined {
+    const close = findMatchingBrace(lines, openLine, openCharacter);
+    if (!close || close.line <= openLine + 1 && !lines.slice(openLine + 1, close.line).some(line => line.trim())) {
+        return undefined;
+    }
+    const indentation = getIndentation(lines[openLine]);
+    const firstBodyLine = lines.slice(openLine + 1, close.line).find(line => line.trim());
+    const bodyIndentation = firstBodyLine ? getIndentation(firstBodyLine) : `${indentation}    `;
+    return {
+        startLine: openLine + 1,
+        endLine: close.line,
+        replacement: [`${bodyIndentation}/* ... */`, indentation + lines[close.line].slice(close.character)],
+    };
+}
+
+/**
+ * Elides the body of a Python `def`, keeping its docstring.
+ * @param defLine The line of the `def` keyword (or of its first decorator-free signature line).
+ */
+function elidePythonBody(lines: string[], defLine: number): Elision | undefined {
+    const defIndentation = getIndentation(lines[defLine]).length;
+
+    // The signature may span lines; it ends at the ":" that closes it outside parentheses
+    let depth = 0;
+    let signatureEnd = -1;
+    for (let line = defLine; line < lines.length && signatureEnd === -1; line++) {
+        const code = lines[line].replace(/#.*$/, '');
+        for (const char of code) {
+            depth += char === '(' || char === '[' ? 1 : char === ')' || char === ']' ? -1 : 0;
+        }
+        if (depth <= 0 && code.trimEnd().endsWith(':')) {
+            signatureEnd = line;
+        }
+    }
+    if (signatureEnd === -1) {
+        return undefined;
+    }
+
+    let bodyEnd = signatureEnd;
+    for (let line = signatureEnd + 1; line < lines.length; line++) {
+        if (!lines[line].trim()) {
+            continue;
+        }
+        if (getIndentation(lines[line]).length <= defIndentation) {
+            break;
+        }
+        bodyEnd = line;
+    }
+    let bodyStart = signatureEnd + 1;
+    while (bodyStart < bodyEnd && !lines[bodyStart].trim()) {
+        bodyStart++;
+    }
+    if (bodyEnd < bodyStart) {
+        return undefined;
+    }
+
+    // Keep the docstring
+    const firstStatement = lines[bodyStart].trim();
+    const docQuote = firstStatement.match(/^[rRuU]?("""|''')/)?.[1];
+    if (docQuote) {
+        let docEnd = bodyStart;
+        if (firstStatement.indexOf(docQuote, firstStatement.indexOf(docQuote) + 3) === -1) {
+            while (docEnd + 1 <= bodyEnd && !lines[docEnd + 1].includes(docQuote)) {
+                docEnd++;
+            }
+            docEnd++;
+        }
+        bodyStart = docEnd + 1;
+    }
+    if (bodyEnd < bodyStart) {
+        return undefined;
+    }
+    const bodyIndentation = getIndentation(lines.slice(bodyStart, bodyEnd + 1).find(line => line.trim()) ?? '') || `${' '.repeat(defIndentation)}    `;
+    return { startLine: bodyStart, endLine: bodyEnd, replacement: [`${bodyIndentation}...`] };
+}
+
+/**
+ * Finds the function bodies to elide through the document symbol provider. Only the outermost functions
+ * are elided; class-like symbols are descended into so their methods are elided one by one.
+ * @returns The elisions, or undefined if the provider returned no symbols.
+ */
+async function findElisionsFromSymbols(document: vscode.TextDocument, lines: string[]): Promise<Elision[] | undefined> {
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', document.uri);
+    } catch (error) {
+        console.warn(`Document symbol provider failed for ${document.uri.fsPath}: ${error}`);
+    }
+    // Flat SymbolInformation results carry no selection range; the heuristic copes better with those
+    if (!symbols || symbols.length === 0 || !('children' in symbols[0])) {
+        return undefined;
+    }
+
+    const elisions: Elision[] = [];
+    const visit = (symbol: vscode.DocumentSymbol) => {
+        if (!BODY_SYMBOL_KINDS.has(symbol.kind)) {
+            symbol.children.forEach(visit);
+            return;
+        }
+        let elision: Elision | undefined;
+        if (document.languageId === 'python') {
+            elision = elidePythonBody(lines, symbol.selectionRange.start.line);
+        } else {
+            const open = findBodyStart(lines, symbol.selectionRange.end.line, symbol.selectionRange.end.character);
+            elision = open && open.line <= symbol.range.end.line ? elideBraceBody(lines, open.line, open.character) : undefined;
+        }
+        if (elision) {
+            elisions.push(elision);
+        }
+    };
+    (symbols as vscode.DocumentSymbol[]).forEach(visit);
+    return elisions;
+}
+
+/**
+ * Finds function bodies without a language server: brace-delimited bodies after a signature line ending
+ * in "{" (control statements excluded), or indented `def` bodies in Python.
+ */
+function findElisionsHeuristically(lines: string[], language: string): Elision[] {
+    const elisions: Elision[] = [];
+    for (let line = 0; line < lines.length; line++) {
+        const text = lines[line].trim();
+        let elision: Elision | undefined;
+        if (language === 'python') {
+            elision = /^(?:async\s+)?def\s/.test(text) ? elidePythonBody(lines, line) : undefined;
+        } else if (FUNCTION_HEADER_PATTERN.test(text) && !CONTROL_STATEMENT_PATTERN.test(text)) {
+            elision = elideBraceBody(lines, line, lines[line].lastIndexOf('{'));
+        }
+        if (elision) {
+            elisions.push(elision);
+            line = elision.endLine;
+        }
+    }
+    return elisions;
+}
+
+/**
+ * Reduces source code to its outline: imports, types, class and function signatures and doc comments stay,
+ * function bodies are replaced by an elision comment (`...` in Python). Uses the document symbol provider when the file is
+ * open with the same content, and a heuristic otherwise.
+ * @param uri The source file.
+ * @param content The file content.
+ * @param language The entry's language id.
+ * @returns The outline, or undefined if the language is not supported or nothing could be elided.
+ */
+export async function createOutline(uri: vscode.Uri, content: string, language: string): Promise<string | undefined> {
+    if (language !== 'python' && !BRACE_LANGUAGES.has(language)) {
+        return undefined;
+    }
+    const lines = content.split('\n');
+    const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.toString() === uri.toString());
+    const elisions = (document && document.getText() === content ? await findElisionsFromSymbols(document, lines) : undefined)
+        ?? findElisionsHeuristically(lines, language);
+    if (elisions.length === 0) {
+        return undefined;
+    }
+
+    elisions.sort((a, b) => b.startLine - a.startLine);
+    let previousStart = Number.MAX_SAFE_INTEGER;
+    for (const elision of elisions) {
+        // Nested symbols reported separately overlap an elision that is already applied
+        if (elision.endLine >= previousStart) {
+            continue;
+        }
+        lines.splice(elision.startLine, elision.endLine - elision.startLine + 1, ...elision.replacement);
+        previousStart = elision.startLine;
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Applies 'llmCopier.compressionMode' to the entries of a copy. "outline" replaces every whole-file entry by its
+ * outline; "hybrid" keeps the active editor's file and the files the user picked in full and outlines the rest.
+ * Selections and other partial entries, and entries marked `fullContent`, are never outlined.
+ * @param entries The entries of a copy.
+ * @param fullContentUris Files copied in full in hybrid mode, besides the active editor's file.
+ * @returns The entries, outlined ones marked "(outline)" in their path and with `outlined` set.
+ */
+export async function compressEntries(entries: ContentEntry[], fullContentUris: vscode.Uri[] = []): Promise<ContentEntry[]> {
+    const mode = vscode.workspace.getConfiguration('llmCopier').get<CompressionMode>('compressionMode', 'none');
+    if (mode === 'none') {
+        return entries;
+    }
+
+    const keptInFull = new Set<string>();
+    if (mode === 'hybrid') {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        [...fullContentUris, ...(activeUri ? [activeUri] : [])].forEach(uri => keptInFull.add(uri.toString()));
+    }
+
+    return Promise.all(entries.map(async entry => {
+        if (!entry.uri || entry.partial || entry.fullContent || keptInFull.has(entry.uri.toString())) {
+            return entry;
+        }
+        const outline = await createOutline(entry.uri, entry.content, entry.language);
+        return outline !== undefined && outline.length < entry.content.length
+            ? { ...entry, path: `${entry.path} (outline)`, content: outline, outlined: true }
+            : entry;
+    }));
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+
+/**
+ * A file (or selection) to be emitted into the copied content.
+ */
+export interface ContentEntry {
+    /** Relative (or absolute) path shown to the model. */
+    path: string;
+    /** Language hint, e.g. "typescript"; may be empty. */
+    language: string;
+    content: string;
+    /** The source file, if the entry comes from one. */
+    uri?: vscode.Uri;
+    /** Whether the entry holds only part of the file, e.g. a selection; partial entries are never outlined. */
+    partial?: boolean;
+    /** Whether the whole file is copied even if 'llmCopier.compressionMode' outlines files, e.g. a file with problems to fix. */
+    fullContent?: boolean;
+    /** Whether the content was replaced by the file's outline ('llmCopier.compressionMode'). */
+    outlined?: boolean;
+    /** Why the entry was included, e.g. 'imported by src/app.ts as "./types"'. Shown with the entry, never part of its path. */
+    note?: string;
+}
+
+/**
+ * Describes how entries are framed in the copied content.
+ * The output is `header + entry (+ separator + entry)* + footer`.
+ */
+export interface OutputFormat {
+    /** Identifier used by the 'llmCopier.outputFormat' setting. */
+    id: string;
+    header?: string;
+    separator?: string;
+    footer?: string;
+    formatEntry(entry: ContentEntry): string;
+}
+
+function escapeXmlAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Wraps content in a CDATA section, so markup in it (such as "</document>") cannot end the element early.
+ * A "]]>" in the content is split across two sections.
+ */
+function wrapXmlCdata(content: string): string {
+    return `<![CDATA[${content.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Returns a backtick fence that is longer than any backtick run in the content,
+ * so the content round-trips through Markdown unchanged.
+ * @param content The content to be fenced.
+ * @returns At least three backticks.
+ */
+export function getCodeFence(content: string): string {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function countLines(content: string): number {
+    return content ? content.split(/\r?\n/).length : 0;
+}
+
+const markdownFormat: OutputFormat = {
+    id: 'markdown',
+    formatEntry(entry: ContentEntry): string {
+        // The note follows the block: the heading line must hold the path alone, since responses are applied by it
+        const fence = getCodeFence(entry.content);
+        const note = entry.note ? `_${entry.note}_\n` : '';
+        return `#### FILE: ${entry.path}\n${fence}${entry.language}\n${entry.content}\n${fence}\n${note}\n`;
+    }
+};
+
+const xmlFormat: OutputFormat = {
+    id: 'xml',
+    header: '<documents>\n',
+    footer: '</documents>\n',
+    formatEntry(entry: ContentEntry): string {
+        const note = entry.note ? ` note="${escapeXmlAttribute(entry.note)}"` : '';
+        return `<document path="${escapeXmlAttribute(entry.path)}"${note}>\n${wrapXmlCdata(entry.content)}\n</document>\n`;
+    }
+};
+
+const jsonFormat: OutputFormat = {
+    id: 'json',
+    header: '[\n',
+    separator: ',\n',
+    footer: '\n]\n',
+    formatEntry(entry: ContentEntry): string {
+        const json = JSON.stringify({ path: entry.path, ...(entry.note ? { note: entry.note } : {}), language: entry.language, content: entry.content }, null, 2);
+        return json.replace(/^/gm, '  ');
+    }
+};
+
+/**
+ * Builds a format from the 'llmCopier.outputTemplate' setting.
+ * Supported placeholders: {path}, {fileName}, {language}, {content}, {lineCount}, {note} (empty for most entries)
+ * and {fence} (a backtick fence long enough for the content).
+ */
+function createTemplateFormat(template: string): OutputFormat {
+    return {
+        id: 'template',
+        formatEntry(entry: ContentEntry): string {
+            const values: Record<string, string> = {
+                path: entry.path,
+                fileName: entry.path.split(/[\\/]/).pop() ?? entry.path,
+                language: entry.language,
+                content: entry.content,
+                lineCount: `${countLines(entry.content)}`,
+                note: entry.note ?? '',
+                fence: getCodeFence(entry.content),
+            };
+            // Single pass, so placeholders inside file content are not expanded
+            return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+        }
+    };
+}
+
+const outputFormats = new Map<string, OutputFormat>([
+    [markdownFormat.id, markdownFormat],
+    [xmlFormat.id, xmlFormat],
+    [jsonFormat.id, jsonFormat],
+]);
+
+/**
+ * Registers an additional output format, selectable through the 'llmCopier.outputFormat' setting.
+ * @param format The format to register. An existing format with the same id is replaced.
+ * @returns A disposable that unregisters the format.
+ */
+export function registerOutputFormat(format: OutputFormat): vscode.Disposable {
+    outputFormats.set(format.id, format);
+    return new vscode.Disposable(() => {
+        if (outputFormats.get(format.id) === format) {
+            outputFormats.delete(format.id);
+        }
+    });
+}
+
+/**
+ * Returns the format selected by 'llmCopier.outputFormat'.
+ * "template" uses 'llmCopier.outputTemplate'; unknown ids fall back to Markdown.
+ * @param id Overrides the configured format id.
+ */
+export function getOutputFormat(id?: string): OutputFormat {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const formatId = id ?? config.get<string>('outputFormat', markdownFormat.id);
+    if (formatId === 'template') {
+        const template = config.get<string>('outputTemplate', '');
+        if (template) {
+            return createTemplateFormat(template);
+        }
+    }
+    return outputFormats.get(formatId) ?? markdownFormat;
+}
+
+/**
+ * Formats a list of entries, including the format's header, separators and footer.
+ * @param entries The entries, in output order.
+ * @param format The format to use; defaults to the configured one.
+ * @returns The formatted text, or an empty string if there are no entries.
+ */
+export function formatEntries(entries: ContentEntry[], format: OutputFormat = getOutputFormat()): string {
+    if (entries.length === 0) {
+        return '';
+    }
+    const body = entries.map(entry => format.formatEntry(entry)).join(format.separator ?? '');
+    return `${format.header ?? ''}${body}${format.footer ?? ''}`;
+}
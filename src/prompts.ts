@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContentEntry } from './outputFormats';
+import { getWorkspaceRootForUri, qualifyPathsAcrossWorkspaceFolders } from './fileUtils';
+import { getCurrentBranch } from './gitUtils';
+
+/**
+ * The prompt text surrounding the copied content.
+ */
+export interface PromptContent {
+    /** Text placed before the copied content. */
+    prompt: string;
+    /** Text placed after the copied content, when a template positions the content with {{content}}. */
+    epilogue: string;
+}
+
+/**
+ * A named prompt template from a prompts directory.
+ */
+interface PromptTemplate {
+    name: string;
+    uri: vscode.Uri;
+    /** "project" or "global", shown in the quick pick. */
+    source: string;
+}
+
+const PROJECT_PROMPTS_DIRECTORY = '.llmcopier/prompts';
+const TEMPLATE_EXTENSIONS = ['.txt', '.md', '.prompt'];
+
+/**
+ * Finds the workspace folder whose prompt.txt and prompt templates apply: the folder of the first copied file,
+ * otherwise the folder of the active editor, otherwise the first workspace folder.
+ * @param entries The copied entries.
+ */
+export function getPromptFolder(entries: ContentEntry[] = []): vscode.Uri | undefined {
+    const anchorUri = entries.find(entry => entry.uri?.scheme === 'file')?.uri ?? vscode.window.activeTextEditor?.document.uri;
+    return (anchorUri && getWorkspaceRootForUri(anchorUri)) ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+}
+
+/**
+ * Reads the content of 'prompt.txt' based on configuration and priority.
+ * 1. Checks 'llmCopier.includePromptFile'. If false, returns empty string.
+ * 2. If true, attempts to read 'prompt.txt' from the workspace folder (see `getPromptFolder`).
+ * 3. If workspace 'prompt.txt' is not found or fails to read, attempts to read from 'llmCopier.globalPromptFilePath'.
+ * @param folderUri The workspace folder to read prompt.txt from; defaults to the active editor's folder.
+ * @returns A formatted string of the prompt.txt content, or an empty string if not found, disabled, or an error occurs.
+ */
+export async function getPromptFileContent(folderUri: vscode.Uri | undefined = getPromptFolder()): Promise<string> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const includePromptFile = config.get<boolean>('includePromptFile', true);
+    const globalPromptFilePath = config.get<string>('globalPromptFilePath', '');
+
+    // If 'includePromptFile' is false, exit early
+    if (!includePromptFile) {
+        return '';
+    }
+
+    let content = '';
+
+    // 1. Try to read project-level prompt.txt (higher priority)
+    if (folderUri) {
+        const projectPromptFilePath = path.join(folderUri.fsPath, 'prompt.txt');
+        try {
+            const fileStat = await vscode.workspace.fs.stat(vscode.Uri.file(projectPromptFilePath));
+            if (fileStat.type === vscode.FileType.File) {
+                const contentBuffer = await vscode.workspace.fs.readFile(vscode.Uri.file(projectPromptFilePath));
+                content = Buffer.from(contentBuffer).toString('utf8');
+                // If project prompt.txt found, return it immediately
+                return `${content}\n\n`;
+            }
+        } catch (error) {
+            // File not found or other read error, silently ignore and proceed to global path
+            // console.warn(`Could not read project prompt.txt at ${projectPromptFilePath}: ${error}`);
+        }
+    }
+
+    // 2. If project prompt.txt was not found or read, try to read global prompt.txt
+    if (globalPromptFilePath) {
+        const absGlobalPromptFilePath = path.resolve(globalPromptFilePath); // Resolve to absolute path
+        try {
+            const fileStat = await vscode.workspace.fs.stat(vscode.Uri.file(absGlobalPromptFilePath));
+            if (fileStat.type === vscode.FileType.File) {
+                const contentBuffer = await vscode.workspace.fs.readFile(vscode.Uri.file(absGlobalPromptFilePath));
+                content = Buffer.from(contentBuffer).toString('utf8');
+            }
+        } catch (error) {
+            console.error(`Failed to read global prompt.txt at ${absGlobalPromptFilePath}: ${error}`);
+            vscode.window.showWarningMessage(`Could not read global prompt file configured at "${globalPromptFilePath}". Check path and permissions.`);
+        }
+    }
+
+    return content ? `${content}\n\n` : '';
+}
+
+async function listTemplatesIn(directoryUri: vscode.Uri, source: string): Promise<PromptTemplate[]> {
+    try {
+        const entries = await vscode.workspace.fs.readDirectory(directoryUri);
+        return entries
+            .filter(([name, type]) => type === vscode.FileType.File && TEMPLATE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+            .map(([name]) => ({ name: path.basename(name, path.extname(name)), uri: vscode.Uri.joinPath(directoryUri, name), source }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * Lists the prompt templates in the project's `.llmcopier/prompts/` directory and in 'llmCopier.globalPromptsDirectory'.
+ * Project templates shadow global templates with the same name.
+ * @param folderUri The workspace folder holding the project templates; defaults to the active editor's folder.
+ */
+export async function listPromptTemplates(folderUri: vscode.Uri | undefined = getPromptFolder()): Promise<PromptTemplate[]> {
+    const templates: PromptTemplate[] = [];
+    if (folderUri) {
+        templates.push(...await listTemplatesIn(vscode.Uri.joinPath(folderUri, PROJECT_PROMPTS_DIRECTORY), 'project'));
+    }
+    const globalPromptsDirectory = vscode.workspace.getConfiguration('llmCopier').get<string>('globalPromptsDirectory', '');
+    if (globalPromptsDirectory) {
+        const globalTemplates = await listTemplatesIn(vscode.Uri.file(path.resolve(globalPromptsDirectory)), 'global');
+        templates.push(...globalTemplates.filter(template => !templates.some(existing => existing.name === template.name)));
+    }
+    return templates;
+}
+
+/**
+ * Expands the variables of a prompt template:
+ * - {{files}}: a bulleted list of the copied paths
+ * - {{selection}}: the selected text of the active editor
+ * - {{branch}}: the current git branch
+ * - {{language}}: the languages of the copied content
+ * - {{input}} or {{input:Question}}: free text entered by the user
+ * - {{content}}: where the copied content goes (defaults to after the prompt)
+ * @param template The template text.
+ * @param entries The copied entries.
+ * @returns The prompt around the content, or undefined if the user cancelled an input.
+ */
+export async function expandPromptTemplate(template: string, entries: ContentEntry[]): Promise<PromptContent | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const values = new Map<string, string>();
+
+    for (const match of template.matchAll(/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g)) {
+        const [placeholder, name, argument] = match;
+        if (values.has(placeholder)) {
+            continue;
+        }
+        switch (name) {
+            case 'files':
+                values.set(placeholder, qualifyPathsAcrossWorkspaceFolders(entries).map(entry => `- ${entry.path}`).join('\n'));
+                break;
+            case 'selection':
+                values.set(placeholder, editor ? editor.selections.filter(selection => !selection.isEmpty).map(selection => editor.document.getText(selection)).join('\n\n') : '');
+                break;
+            case 'language':
+                values.set(placeholder, [...new Set(entries.map(entry => entry.language).filter(language => language))].join(', '));
+                break;
+            case 'branch': {
+                const rootUri = getPromptFolder(entries);
+                values.set(placeholder, (rootUri && await getCurrentBranch(rootUri.fsPath)) ?? '');
+                break;
+            }
+            case 'input': {
+                const input = await vscode.window.showInputBox({ prompt: argument?.trim() || 'Text for the prompt template' });
+                if (input === undefined) {
+                    return undefined;
+                }
+                values.set(placeholder, input);
+                break;
+            }
+        }
+    }
+
+    const expand = (text: string) => text.replace(/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g, placeholder => values.get(placeholder) ?? placeholder);
+    const contentMatch = /\{\{\s*content\s*\}\}/.exec(template);
+    if (!contentMatch) {
+        return { prompt: `${expand(template)}\n\n`, epilogue: '' };
+    }
+    return {
+        prompt: expand(template.slice(0, contentMatch.index)),
+        epilogue: expand(template.slice(contentMatch.index + contentMatch[0].length)),
+    };
+}
+
+/**
+ * Resolves the prompt for a copy:
+ * 1. If 'llmCopier.includePromptFile' is false, there is no prompt.
+ * 2. If 'llmCopier.askForPromptTemplate' is true and templates exist, the user picks a template, prompt.txt or no prompt.
+ * 3. Otherwise the template named by 'llmCopier.promptTemplate' is used, falling back to prompt.txt.
+ * Project templates and prompt.txt come from the workspace folder of the copied files (see `getPromptFolder`).
+ * @param entries The copied entries, used to find the workspace folder and by the template variables.
+ * @returns The prompt around the content, or undefined if the user cancelled.
+ */
+export async function getPromptContent(entries: ContentEntry[]): Promise<PromptContent | undefined> {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    if (!config.get<boolean>('includePromptFile', true)) {
+        return { prompt: '', epilogue: '' };
+    }
+
+    const promptFolder = getPromptFolder(entries);
+    const templates = await listPromptTemplates(promptFolder);
+    let template: PromptTemplate | undefined = undefined;
+
+    if (config.get<boolean>('askForPromptTemplate', false) && templates.length > 0) {
+        const promptFileItem: vscode.QuickPickItem & { template?: PromptTemplate } = { label: 'prompt.txt', description: 'project or global prompt.txt' };
+        const noPromptItem: vscode.QuickPickItem & { template?: PromptTemplate } = { label: 'No prompt' };
+        const choice = await vscode.window.showQuickPick(
+            [...templates.map(candidate => ({ label: candidate.name, description: candidate.source, template: candidate })), promptFileItem, noPromptItem],
+            { placeHolder: 'Choose a prompt template for this copy' }
+        );
+        if (!choice) {
+            return undefined;
+        }
+        if (choice === noPromptItem) {
+            return { prompt: '', epilogue: '' };
+        }
+        template = choice.template;
+    } else {
+        const templateName = config.get<string>('promptTemplate', '');
+        if (templateName) {
+            template = templates.find(candidate => candidate.name === templateName);
+            if (!template) {
+                vscode.window.showWarningMessage(`Prompt template "${templateName}" was not found. Using prompt.txt instead.`);
+            }
+        }
+    }
+
+    if (!template) {
+        return { prompt: await getPromptFileContent(promptFolder), epilogue: '' };
+    }
+
+    try {
+        const templateText = Buffer.from(await vscode.workspace.fs.readFile(template.uri)).toString('utf8');
+        return expandPromptTemplate(templateText, entries);
+    } catch (error) {
+        console.error(`Failed to read prompt template ${template.uri.fsPath}: ${error}`);
+        vscode.window.showWarningMessage(`Could not read prompt template "${template.name}".`);
+        return { prompt: '', epilogue: '' };
+    }
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContentEntry } from './outputFormats';
+import { getWorkspaceRootForUri } from './fileUtils';
+import { IgnoreRule, parseIgnoreFile, findLastMatchingRule } from './ignoreRules';
+
+/**
+ * A built-in secret detector. Patterns with a `secret` capture group only mask that group,
+ * keeping e.g. the variable name of an assignment.
+ */
+interface SecretDetector {
+    id: string;
+    label: string;
+    regex: RegExp;
+    /** Extra check on the matched secret, for patterns too broad on their own. */
+    accept?: (secret: string) => boolean;
+}
+
+/**
+ * Outcome of redacting the entries of a copy.
+ */
+export interface RedactionResult {
+    /** The entries to copy, with secrets replaced by placeholders. */
+    entries: ContentEntry[];
+    /** Entries refused because their file matches 'llmCopier.secretFileDenylist'. */
+    refusedEntries: ContentEntry[];
+    /** Number of masked secrets per detector label. */
+    maskedCounts: Map<string, number>;
+    /** Paths of the entries in which secrets were masked. */
+    maskedPaths: string[];
+}
+
+/**
+ * Shannon entropy of the string, in bits per character.
+ */
+function getEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / text.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/**
+ * Built-in detectors, applied in order. Private keys come first so their base64 body is masked as one block.
+ */
+const SECRET_DETECTORS: SecretDetector[] = [
+    {
+        id: 'private-key',
+        label: 'private key',
+        regex: /-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END \1PRIVATE KEY\2-----/g,
+    },
+    {
+        id: 'aws-access-key',
+        label: 'AWS access key',
+        regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+    },
+    {
+        id: 'aws-secret-key',
+        label: 'AWS secret key',
+        regex: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    },
+    {
+        id: 'github-token',
+        label: 'GitHub token',
+        regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    },
+    {
+        // .env style assignments of upper case names such as DB_PASSWORD=..., in any file.
+        // Empty values and references like ${VAR} or <placeholder> are left alone.
+        id: 'env-secret',
+        label: '.env secret',
+        regex: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|AUTH)[A-Z0-9_]*[ \t]*=[ \t]*(["']?)(?<secret>[^\s"'#$<{][^\s"']*)\1/gm,
+    },
+    {
+        // Quoted strings that look random, e.g. hard-coded API keys of unknown providers
+        id: 'high-entropy-string',
+        label: 'high-entropy string',
+        regex: /(["'`])(?<secret>[A-Za-z0-9+/=_-]{24,})\1/g,
+        accept: secret => /[0-9]/.test(secret) && /[a-zA-Z]/.test(secret) && getEntropy(secret) >= 4.0,
+    },
+];
+
+const PLACEHOLDER_PREFIX = '[REDACTED:';
+
+function getPlaceholder(id: string): string {
+    return `${PLACEHOLDER_PREFIX}${id}]`;
+}
+
+/**
+ * Reads the user patterns from 'llmCopier.redactionPatterns'. Invalid patterns are reported and skipped.
+ */
+function getUserDetectors(): SecretDetector[] {
+    const patterns = vscode.workspace.getConfiguration('llmCopier').get<string[]>('redactionPatterns', []);
+    const detectors: SecretDetector[] = [];
+    for (const pattern of patterns) {
+        try {
+            detectors.push({ id: 'custom', label: `pattern /${pattern}/`, regex: new RegExp(pattern, 'g') });
+        } catch (error) {
+            console.error(`Invalid pattern in llmCopier.redactionPatterns: ${pattern}: ${error}`);
+            vscode.window.showWarningMessage(`Ignoring invalid pattern in llmCopier.redactionPatterns: ${pattern}`);
+        }
+    }
+    return detectors;
+}
+
+/**
+ * Replaces the secrets found by the detectors with "[REDACTED:<detector>]" placeholders.
+ * @param content The text to redact.
+ * @param detectors The detectors to apply, in order.
+ * @param maskedCounts Updated with the number of masked secrets per detector label.
+ * @returns The redacted text.
+ */
+function redactContent(content: string, detectors: SecretDetector[], maskedCounts: Map<string, number>): string {
+    for (const detector of detectors) {
+        detector.regex.lastIndex = 0;
+        content = content.replace(detector.regex, (...args) => {
+            const match: string = args[0];
+            const groups: Record<string, string | undefined> | undefined = typeof args[args.length - 1] === 'object' ? args[args.length - 1] : undefined;
+            const secret = groups?.secret ?? match;
+            if (!secret || secret.includes(PLACEHOLDER_PREFIX) || (detector.accept && !detector.accept(secret))) {
+                return match;
+            }
+            maskedCounts.set(detector.label, (maskedCounts.get(detector.label) ?? 0) + 1);
+            const secretIndex = match.lastIndexOf(secret);
+            return match.slice(0, secretIndex) + getPlaceholder(detector.id) + match.slice(secretIndex + secret.length);
+        });
+    }
+    return content;
+}
+
+/**
+ * The detectors enabled by 'llmCopier.redactSecrets' and 'llmCopier.redactionPatterns'.
+ */
+function getEnabledDetectors(): SecretDetector[] {
+    return vscode.workspace.getConfiguration('llmCopier').get<boolean>('redactSecrets', true) ? [...SECRET_DETECTORS, ...getUserDetectors()] : [];
+}
+
+function countMasked(result: RedactionResult): number {
+    return [...result.maskedCounts.values()].reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Finds the 'llmCopier.secretFileDenylist' pattern matching the entry's file.
+ * @returns The matching pattern's description, or undefined if the file may be copied.
+ */
+function findDenylistRule(entry: ContentEntry, rules: IgnoreRule[]): string | undefined {
+    if (!entry.uri) {
+        return undefined;
+    }
+    const rootUri = getWorkspaceRootForUri(entry.uri);
+    const relativePath = rootUri
+        ? path.relative(rootUri.fsPath, entry.uri.fsPath).split(path.sep).join('/')
+        : path.basename(entry.uri.fsPath);
+    const rule = findLastMatchingRule(rules, relativePath, false);
+    return rule && !rule.negate ? rule.source : undefined;
+}
+
+/**
+ * Prepares entries for leaving the editor: refuses files on 'llmCopier.secretFileDenylist' and, if
+ * 'llmCopier.redactSecrets' is enabled, masks AWS keys, GitHub tokens, private keys, .env style secrets,
+ * high-entropy strings and matches of 'llmCopier.redactionPatterns'.
+ * @param entries The entries to copy.
+ * @returns The redacted entries and what was refused or masked.
+ */
+export function redactEntries(entries: ContentEntry[]): RedactionResult {
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const denylistRules = parseIgnoreFile(config.get<string[]>('secretFileDenylist', []).join('\n'), 'llmCopier.secretFileDenylist');
+    const detectors = getEnabledDetectors();
+
+    const result: RedactionResult = { entries: [], refusedEntries: [], maskedCounts: new Map<string, number>(), maskedPaths: [] };
+    for (const entry of entries) {
+        const denylistRule = findDenylistRule(entry, denylistRules);
+        if (denylistRule) {
+            console.log(`Refusing to copy ${entry.path}: matches ${denylistRule}`);
+            result.refusedEntries.push(entry);
+            continue;
+        }
+
+        const maskedBefore = countMasked(result);
+        const content = redactContent(entry.content, detectors, result.maskedCounts);
+        if (countMasked(result) > maskedBefore) {
+            result.maskedPaths.push(entry.path);
+            result.entries.push({ ...entry, content });
+        } else {
+            result.entries.push(entry);
+        }
+    }
+    return result;
+}
+
+/**
+ * Masks secrets in the text around the entries, such as a prompt holding the editor selection or user input,
+ * with the same detectors as `redactEntries`.
+ * @param text The text to redact.
+ * @param label Names the text in the warning, e.g. "prompt".
+ * @param result The redaction of the entries, updated with what was masked.
+ * @returns The redacted text.
+ */
+export function redactText(text: string, label: string, result: RedactionResult): string {
+    const maskedBefore = countMasked(result);
+    const redacted = redactContent(text, getEnabledDetectors(), result.maskedCounts);
+    if (countMasked(result) > maskedBefore) {
+        result.maskedPaths.push(label);
+    }
+    return redacted;
+}
+
+/**
+ * Masks secrets in the text with the same detectors as `redactEntries`, without reporting what was masked.
+ * @returns The redacted text.
+ */
+export function maskSecrets(text: string): string {
+    return redactContent(text, getEnabledDetectors(), new Map<string, number>());
+}
+
+/**
+ * Describes what was masked and refused, for the warning shown after a copy.
+ * @returns A message like "Masked 3 secrets (AWS access key ×2, private key ×1) in config.ts, id.txt.
+ *          Refused 1 file on the secret denylist: .env.", or undefined if nothing was masked or refused.
+ */
+export function describeRedactions(result: RedactionResult): string | undefined {
+    const parts: string[] = [];
+    const maskedTotal = countMasked(result);
+    if (maskedTotal > 0) {
+        const detectors = [...result.maskedCounts.entries()].sort((a, b) => b[1] - a[1]).map(([label, count]) => `${label} ×${count}`);
+        parts.push(`Masked ${maskedTotal} secret${maskedTotal > 1 ? 's' : ''} (${detectors.join(', ')}) in ${result.maskedPaths.join(', ')}.`);
+    }
+    if (result.refusedEntries.length > 0) {
+        const refused = result.refusedEntries.length;
+        parts.push(`Refused ${refused} file${refused > 1 ? 's' : ''} on the secret denylist: ${result.refusedEntries.map(entry => entry.path).join(', ')}.`);
+    }
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
@@ -0,0 +1,405 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getWorkspaceRootForUri } from './fileUtils';
+import { decodeFileContent } from './encoding';
+
+/**
+ * A change for one file, as parsed from an LLM response.
+ * File blocks carry the full new content; unified diffs carry hunks to apply to the current content.
+ */
+export interface ParsedFileChange {
+    path: string;
+    newContent?: string;
+    hunks?: DiffHunk[];
+    /** Whether a diff to `/dev/null` deletes the file. */
+    deleted?: boolean;
+}
+
+interface DiffHunk {
+    oldStart: number;
+    /** Hunk body lines, each starting with ' ', '-' or '+'. */
+    lines: string[];
+}
+
+/**
+ * A parsed change resolved against the workspace, ready to preview and apply.
+ */
+interface ResolvedFileChange {
+    uri: vscode.Uri;
+    displayPath: string;
+    isNewFile: boolean;
+    isDeleted: boolean;
+    originalContent: string;
+    newContent: string;
+}
+
+const PREVIEW_SCHEME = 'llm-copier-preview';
+const previewContents = new Map<string, string>();
+
+/**
+ * Registers the content provider backing the diff preview.
+ * @param context The extension context, used to dispose the provider on deactivation.
+ */
+export function registerResponsePreviewProvider(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+        provideTextDocumentContent(uri: vscode.Uri): string {
+            return previewContents.get(uri.toString()) ?? '';
+        }
+    }));
+}
+
+/**
+ * Extracts `#### FILE: <path>` blocks, as produced by the Markdown output format, from a response.
+ * The closing fence must match the opening fence, so content containing shorter backtick runs is preserved.
+ * Blocks fenced as `diff`/`patch` are returned as unified diffs rather than as full content.
+ * @param text The response text.
+ * @returns The parsed changes and the text outside of file blocks.
+ */
+export function parseFileBlocks(text: string): { changes: ParsedFileChange[]; remainder: string } {
+    const lines = text.split(/\r?\n/);
+    const changes: ParsedFileChange[] = [];
+    const remainder: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const heading = /^#{1,6}\s*FILE:\s*(.+?)\s*$/.exec(lines[i]);
+        const fence = heading && i + 1 < lines.length ? /^(`{3,})\s*([\w+-]*)/.exec(lines[i + 1]) : null;
+        if (!heading || !fence) {
+            remainder.push(lines[i]);
+            continue;
+        }
+
+        const closingIndex = lines.findIndex((line, index) => index > i + 1 && line.trim() === fence[1]);
+        const endIndex = closingIndex === -1 ? lines.length : closingIndex;
+        const content = lines.slice(i + 2, endIndex).join('\n');
+        const filePath = heading[1].replace(/^`(.*)`$/, '$1');
+
+        if (fence[2] === 'diff' || fence[2] === 'patch') {
+            for (const diff of parseUnifiedDiff(content)) {
+                changes.push({ ...diff, path: diff.path === '' ? filePath : diff.path });
+            }
+        } else {
+            changes.push({ path: filePath, newContent: content });
+        }
+        i = endIndex;
+    }
+
+    return { changes, remainder: remainder.join('\n') };
+}
+
+/**
+ * Parses unified diffs (`--- a/path` / `+++ b/path` followed by `@@` hunks).
+ * @param text Text containing one or more file diffs; lines outside diffs are ignored.
+ * @returns One change per file. The path is empty for hunks without file headers.
+ */
+export function parseUnifiedDiff(text: string): ParsedFileChange[] {
+    const lines = text.split(/\r?\n/);
+    const changes: ParsedFileChange[] = [];
+    let current: ParsedFileChange | undefined = undefined;
+    let hunk: DiffHunk | undefined = undefined;
+
+    const stripPrefix = (filePath: string) => filePath.replace(/\t.*$/, '').replace(/^[ab]\//, '');
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+            const oldPath = stripPrefix(line.slice(4).trim());
+            const newPath = stripPrefix(lines[i + 1].slice(4).trim());
+            current = newPath === '/dev/null' ? { path: oldPath, hunks: [], deleted: true } : { path: newPath, hunks: [] };
+            changes.push(current);
+            hunk = undefined;
+            i++;
+            continue;
+        }
+
+        const hunkHeader = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+        if (hunkHeader) {
+            if (!current) {
+                current = { path: '', hunks: [] };
+                changes.push(current);
+            }
+            hunk = { oldStart: parseInt(hunkHeader[1], 10), lines: [] };
+            current.hunks!.push(hunk);
+            continue;
+        }
+
+        if (hunk && (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+') || line === '')) {
+            hunk.lines.push(line === '' ? ' ' : line);
+        } else if (hunk && !line.startsWith('\\')) {
+            hunk = undefined;
+        }
+    }
+
+    return changes.filter(change => change.hunks!.length > 0);
+}
+
+/**
+ * Applies hunks to the original content. Each hunk is located at its stated line, or else at the
+ * nearest position where its context and removed lines match.
+ * @throws {Error} If a hunk does not match the content.
+ */
+export function applyHunks(originalContent: string, hunks: DiffHunk[]): string {
+    const eol = originalContent.includes('\r\n') ? '\r\n' : '\n';
+    const lines = originalContent === '' ? [] : originalContent.split(/\r?\n/);
+    let offset = 0;
+
+    for (const hunk of hunks) {
+        // Trailing blank context lines are often lost when responses are trimmed
+        while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+            hunk.lines.pop();
+        }
+        const expected = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+        const replacement = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+
+        const matchesAt = (start: number) => start >= 0 && start + expected.length <= lines.length
+            && expected.every((line, index) => lines[start + index].trimEnd() === line.trimEnd());
+
+        const stated = Math.max(0, hunk.oldStart - 1 + offset);
+        let start = -1;
+        for (let distance = 0; distance <= lines.length; distance++) {
+            if (matchesAt(stated - distance)) {
+                start = stated - distance;
+                break;
+            }
+            if (matchesAt(stated + distance)) {
+                start = stated + distance;
+                break;
+            }
+        }
+        if (start === -1) {
+            throw new Error(`hunk at line ${hunk.oldStart} does not match the current content`);
+        }
+
+        lines.splice(start, expected.length, ...replacement);
+        offset += replacement.length - expected.length;
+    }
+
+    return lines.join(eol);
+}
+
+/**
+ * Whether the URI is a file or folder strictly inside the root folder.
+ */
+function isInsideFolder(uri: vscode.Uri, rootUri: vscode.Uri): boolean {
+    const relativePath = path.relative(rootUri.fsPath, uri.fsPath);
+    return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Resolves a path from a response to a file URI inside the workspace. Relative paths are resolved against the
+ * workspace folder that already contains them, a workspace folder named by the first path segment, or the active
+ * editor's workspace folder. A pasted response must not write anywhere else, so absolute paths and paths leaving
+ * their workspace folder (e.g. "../../.bashrc") are rejected.
+ * @returns The URI, or undefined if there is no workspace to resolve against, or the path is absolute or escapes it.
+ */
+export async function resolveResponsePath(responsePath: string): Promise<vscode.Uri | undefined> {
+    if (path.posix.isAbsolute(responsePath) || path.win32.isAbsolute(responsePath)) {
+        return undefined;
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const candidates: vscode.Uri[] = [];
+    for (const folder of workspaceFolders) {
+        const candidate = vscode.Uri.joinPath(folder.uri, responsePath);
+        if (isInsideFolder(candidate, folder.uri)) {
+            candidates.push(candidate);
+        }
+    }
+    for (const candidate of candidates) {
+        try {
+            await vscode.workspace.fs.stat(candidate);
+            return candidate;
+        } catch (error) {
+            // Not in this workspace folder
+        }
+    }
+
+    const [firstSegment, ...rest] = responsePath.split(/[\\/]/);
+    const namedFolder = workspaceFolders.find(folder => folder.name === firstSegment);
+    if (namedFolder && rest.length > 0) {
+        const resolved = vscode.Uri.joinPath(namedFolder.uri, ...rest);
+        return isInsideFolder(resolved, namedFolder.uri) ? resolved : undefined;
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const rootUri = (activeUri && getWorkspaceRootForUri(activeUri)) ?? workspaceFolders[0]?.uri;
+    if (!rootUri) {
+        return undefined;
+    }
+    const resolved = vscode.Uri.joinPath(rootUri, responsePath);
+    return isInsideFolder(resolved, rootUri) ? resolved : undefined;
+}
+
+async function readCurrentContent(uri: vscode.Uri): Promise<string | undefined> {
+    // Prefer the open document, which may have unsaved changes
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    try {
+        return decodeFileContent(await vscode.workspace.fs.readFile(uri), uri);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Resolves parsed changes against the workspace and computes the new content of each file.
+ * Changes that cannot be resolved or applied are reported in `errors`.
+ */
+async function resolveChanges(parsedChanges: ParsedFileChange[]): Promise<{ changes: ResolvedFileChange[]; errors: string[] }> {
+    const changes: ResolvedFileChange[] = [];
+    const errors: string[] = [];
+
+    for (const parsed of parsedChanges) {
+        if (!parsed.path) {
+            errors.push('A diff without file headers was skipped.');
+            continue;
+        }
+        const uri = await resolveResponsePath(parsed.path);
+        if (!uri) {
+            errors.push(`${parsed.path}: could not be resolved inside the workspace.`);
+            continue;
+        }
+
+        // Several changes to the same file are applied on top of each other
+        const previous = changes.find(change => change.uri.toString() === uri.toString());
+        const currentContent = previous ? previous.newContent : await readCurrentContent(uri);
+        const isNewFile = previous ? previous.isNewFile : currentContent === undefined;
+
+        if (parsed.deleted && currentContent === undefined) {
+            errors.push(`${parsed.path}: cannot be deleted, it does not exist.`);
+            continue;
+        }
+
+        let newContent: string;
+        try {
+            newContent = parsed.newContent ?? applyHunks(currentContent ?? '', parsed.hunks ?? []);
+        } catch (error) {
+            errors.push(`${parsed.path}: ${error instanceof Error ? error.message : error}.`);
+            continue;
+        }
+        // The hunks of a deletion are still applied above, so a deletion of other content is rejected
+        const isDeleted = !!parsed.deleted;
+        if (isDeleted) {
+            newContent = '';
+        }
+
+        if (previous) {
+            previous.newContent = newContent;
+            previous.isDeleted = isDeleted;
+        } else if (newContent !== currentContent || isDeleted) {
+            changes.push({
+                uri,
+                displayPath: vscode.workspace.asRelativePath(uri),
+                isNewFile,
+                isDeleted,
+                originalContent: currentContent ?? '',
+                newContent,
+            });
+        }
+    }
+
+    return { changes, errors };
+}
+
+function countChangedLines(change: ResolvedFileChange): string {
+    const originalLines = new Set(change.originalContent.split(/\r?\n/));
+    const newLines = new Set(change.newContent.split(/\r?\n/));
+    const added = [...newLines].filter(line => !originalLines.has(line)).length;
+    const removed = [...originalLines].filter(line => !newLines.has(line)).length;
+    return `+${added} -${removed}`;
+}
+
+/**
+ * Opens a multi-file diff of the proposed changes (a single diff editor on VS Code versions without one).
+ */
+async function showDiffPreview(changes: ResolvedFileChange[]): Promise<void> {
+    previewContents.clear();
+    const resources: [vscode.Uri, vscode.Uri, vscode.Uri][] = changes.map((change, index) => {
+        const originalUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/original/${index}/${change.displayPath}` });
+        const proposedUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/proposed/${index}/${change.displayPath}` });
+        previewContents.set(originalUri.toString(), change.originalContent);
+        previewContents.set(proposedUri.toString(), change.newContent);
+        return [change.uri, originalUri, proposedUri];
+    });
+
+    try {
+        await vscode.commands.executeCommand('vscode.changes', 'LLM Response Preview', resources);
+    } catch (error) {
+        const [, originalUri, proposedUri] = resources[0];
+        await vscode.commands.executeCommand('vscode.diff', originalUri, proposedUri, `LLM Response: ${changes[0].displayPath}`);
+    }
+}
+
+/**
+ * Applies the changes as a single WorkspaceEdit, so one undo reverts all of them. New files are created and
+ * deleted files removed as needed.
+ * @returns Whether the edit was applied.
+ */
+async function applyChanges(changes: ResolvedFileChange[]): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of changes) {
+        if (change.isDeleted) {
+            if (!change.isNewFile) {
+                edit.deleteFile(change.uri, { ignoreIfNotExists: true });
+            }
+        } else if (change.isNewFile) {
+            edit.createFile(change.uri, { ignoreIfExists: true });
+            edit.insert(change.uri, new vscode.Position(0, 0), change.newContent);
+        } else {
+            const document = await vscode.workspace.openTextDocument(change.uri);
+            const fullRange = document.validateRange(new vscode.Range(0, 0, document.lineCount, 0));
+            edit.replace(change.uri, fullRange, change.newContent);
+        }
+    }
+    return vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Parses an LLM response from the clipboard, previews the changes and applies the ones the user accepts.
+ */
+export async function applyResponseFromClipboard(): Promise<void> {
+    const responseText = await vscode.env.clipboard.readText();
+    if (!responseText.trim()) {
+        vscode.window.showInformationMessage('The clipboard is empty.');
+        return;
+    }
+
+    const { changes: blockChanges, remainder } = parseFileBlocks(responseText);
+    const parsedChanges = [...blockChanges, ...parseUnifiedDiff(remainder)];
+    if (parsedChanges.length === 0) {
+        vscode.window.showInformationMessage('No "#### FILE:" blocks or unified diffs found in the clipboard.');
+        return;
+    }
+
+    const { changes, errors } = await resolveChanges(parsedChanges);
+    if (errors.length > 0) {
+        console.warn(`[LLM Code Copier] Some changes could not be applied:\n${errors.join('\n')}`);
+        vscode.window.showWarningMessage(`Skipped ${errors.length} change${errors.length > 1 ? 's' : ''}: ${errors.join(' ')}`);
+    }
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('The response does not change any files.');
+        return;
+    }
+
+    await showDiffPreview(changes);
+
+    const picks = await vscode.window.showQuickPick(
+        changes.map(change => ({
+            label: change.displayPath,
+            description: change.isDeleted ? 'delete' : change.isNewFile ? 'new file' : countChangedLines(change),
+            picked: true,
+            change,
+        })),
+        { canPickMany: true, title: 'Apply LLM Response', placeHolder: 'Select the files to apply' }
+    );
+    if (!picks || picks.length === 0) {
+        return;
+    }
+
+    if (await applyChanges(picks.map(pick => pick.change))) {
+        vscode.window.showInformationMessage(`Applied changes to ${picks.length} file${picks.length > 1 ? 's' : ''}. Use Undo to revert.`);
+    } else {
+        vscode.window.showErrorMessage('Failed to apply the LLM response.');
+    }
+}
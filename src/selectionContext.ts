@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { ContentEntry } from './outputFormats';
+import { createContentEntry } from './fileUtils';
+
+/**
+ * Symbol kinds that count as an "enclosing" scope when expanding a selection.
+ */
+const ENCLOSING_SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Module,
+    vscode.SymbolKind.Namespace,
+]);
+
+interface ScopeSymbol {
+    name: string;
+    kind: vscode.SymbolKind;
+    range: vscode.Range;
+}
+
+/**
+ * Flattens the document symbols (hierarchical or flat, depending on the provider) into scopes.
+ */
+async function getScopeSymbols(document: vscode.TextDocument): Promise<ScopeSymbol[]> {
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', document.uri);
+    } catch (error) {
+        console.warn(`Document symbol provider failed for ${document.uri.fsPath}: ${error}`);
+    }
+
+    const scopes: ScopeSymbol[] = [];
+    const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+        const range = 'location' in symbol ? symbol.location.range : symbol.range;
+        if (ENCLOSING_SYMBOL_KINDS.has(symbol.kind)) {
+            scopes.push({ name: symbol.name, kind: symbol.kind, range });
+        }
+        if ('children' in symbol) {
+            symbol.children.forEach(visit);
+        }
+    };
+    (symbols ?? []).forEach(visit);
+    return scopes;
+}
+
+/**
+ * Finds the innermost function/class-like symbol containing the range.
+ */
+function findEnclosingScope(scopes: ScopeSymbol[], range: vscode.Range): ScopeSymbol | undefined {
+    let innermost: ScopeSymbol | undefined = undefined;
+    for (const scope of scopes) {
+        if (scope.range.contains(range) && (!innermost || innermost.range.contains(scope.range))) {
+            innermost = scope;
+        }
+    }
+    return innermost;
+}
+
+function describePosition(position: vscode.Position): string {
+    return `${position.line + 1}:${position.character + 1}`;
+}
+
+/**
+ * Creates one entry per non-empty selection of the editor (all cursors of a multi-selection), in document order.
+ * The entry path carries the range, e.g. "src/app.ts:12:5-14:20". Depending on the settings, each selection is
+ * widened to whole lines with 'llmCopier.selectionContextLines' lines around it, or to its enclosing
+ * function/class ('llmCopier.selectionIncludeEnclosingSymbol'), found through the document symbol provider.
+ * @param editor The editor whose selections are copied.
+ * @returns The selection entries; selections widened to the same range are copied once.
+ */
+export async function createSelectionEntries(editor: vscode.TextEditor): Promise<ContentEntry[]> {
+    const document = editor.document;
+    const config = vscode.workspace.getConfiguration('llmCopier');
+    const contextLines = Math.max(0, config.get<number>('selectionContextLines', 0));
+    const includeEnclosingSymbol = config.get<boolean>('selectionIncludeEnclosingSymbol', false);
+    const scopes = includeEnclosingSymbol ? await getScopeSymbols(document) : [];
+
+    const selections = editor.selections
+        .filter(selection => !selection.isEmpty)
+        .sort((a, b) => a.start.compareTo(b.start));
+
+    const entries: ContentEntry[] = [];
+    const copiedRanges: vscode.Range[] = [];
+
+    for (const selection of selections) {
+        let range: vscode.Range = selection;
+        let note = '';
+
+        const scope = includeEnclosingSymbol ? findEnclosingScope(scopes, selection) : undefined;
+        if (scope) {
+            const endLine = scope.range.end.line;
+            range = new vscode.Range(scope.range.start.line, 0, endLine, document.lineAt(endLine).text.length);
+            note = ` (enclosing ${vscode.SymbolKind[scope.kind].toLowerCase()} ${scope.name}; selection ${describePosition(selection.start)}-${describePosition(selection.end)})`;
+        }
+        if (contextLines > 0) {
+            const startLine = Math.max(0, range.start.line - contextLines);
+            const endLine = Math.min(document.lineCount - 1, range.end.line + contextLines);
+            range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+            note = note || ` (selection ${describePosition(selection.start)}-${describePosition(selection.end)} with ${contextLines} lines of context)`;
+        }
+
+        if (copiedRanges.some(copied => copied.contains(range))) {
+            continue;
+        }
+        copiedRanges.push(range);
+
+        const entry = createContentEntry(document.uri, document.getText(range), document.languageId);
+        const rangeLabel = range.isEqual(selection)
+            ? `${describePosition(range.start)}-${describePosition(range.end)}`
+            : `${range.start.line + 1}-${range.end.line + 1}`;
+        entries.push({ ...entry, path: `${entry.path}:${rangeLabel}${note}`, partial: true });
+    }
+
+    return entries;
+}
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChatEndpoint, listChatModels, streamChatCompletion } from '../chatPanel';
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    authorization?: string;
+    body: string;
+}
+
+/**
+ * A local stand-in for Ollama and OpenAI-compatible servers. Streamed responses are written in the given chunks,
+ * which may split lines, with a pause between them.
+ */
+function createMockServer(routes: Record<string, { status?: number; chunks: string[] }>) {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => body += chunk);
+        request.on('end', async () => {
+            requests.push({ method: request.method!, url: request.url!, authorization: request.headers.authorization, body });
+            const route = routes[request.url!];
+            if (!route) {
+                response.writeHead(404, 'Not Found').end('no route');
+                return;
+            }
+            response.writeHead(route.status ?? 200);
+            for (const chunk of route.chunks) {
+                response.write(chunk);
+                await new Promise(resolve => setTimeout(resolve, 5));
+            }
+            response.end();
+        });
+    });
+    return { server, requests };
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+    const contents: string[] = [];
+    for await (const content of stream) {
+        contents.push(content);
+    }
+    return contents;
+}
+
+suite('Chat Client Test Suite', () => {
+    let mock: ReturnType<typeof createMockServer>;
+    let baseUrl: string;
+    const messages = [{ role: 'user', content: 'Hi' }];
+
+    setup(async () => {
+        mock = createMockServer({
+            '/api/tags': { chunks: [JSON.stringify({ models: [{ name: 'llama3' }, { name: 'qwen2' }] })] },
+            '/api/chat': {
+                chunks: [
+                    '{"message":{"content":"Hel"},"done":false}\n{"message":{"con',
+                    'tent":"lo"},"done":false}\n',
+                    '{"message":{"content":""},"done":true}\n',
+                ],
+            },
+            '/v1/models': { chunks: [JSON.stringify({ data: [{ id: 'gpt-4o' }] })] },
+            '/v1/chat/completions': {
+                chunks: [
+                    ': keep-alive\n\ndata: {"choices":[{"delta":{"content":"Hel"}}]}\n\nda',
+                    'ta: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+                    'data: [DONE]\n\ndata: {"choices":[{"delta":{"content":"ignored"}}]}\n\n',
+                ],
+            },
+            '/broken/api/chat': { chunks: ['{"error":"model not found"}\n'] },
+            '/failing/chat/completions': { status: 500, chunks: ['upstream down'] },
+        });
+        await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}`;
+    });
+
+    teardown(async () => {
+        // The client keeps connections alive, which would hold the server open
+        mock.server.closeAllConnections();
+        await new Promise(resolve => mock.server.close(resolve));
+    });
+
+    test('Lists the models of Ollama and OpenAI-compatible servers', async () => {
+        assert.deepStrictEqual(await listChatModels({ provider: 'ollama', baseUrl, apiKey: undefined }), ['llama3', 'qwen2']);
+        assert.deepStrictEqual(await listChatModels({ provider: 'openai', baseUrl: `${baseUrl}/v1`, apiKey: 'sk-test' }), ['gpt-4o']);
+        assert.strictEqual(mock.requests[1].authorization, 'Bearer sk-test');
+    });
+
+    test('Returns no models when the server cannot be reached', async () => {
+        assert.deepStrictEqual(await listChatModels({ provider: 'openai', baseUrl: `${baseUrl}/missing`, apiKey: undefined }), []);
+    });
+
+    test('Streams Ollama chat deltas split across chunks', async () => {
+        const endpoint: ChatEndpoint = { provider: 'ollama', baseUrl, apiKey: undefined };
+        const contents = await collect(streamChatCompletion(endpoint, 'llama3', messages, new AbortController().signal));
+        assert.strictEqual(contents.join(''), 'Hello');
+        assert.deepStrictEqual(JSON.parse(mock.requests[0].body), { model: 'llama3', messages, stream: true });
+        assert.strictEqual(mock.requests[0].authorization, undefined);
+    });
+
+    test('Streams server-sent events until [DONE]', async () => {
+        const endpoint: ChatEndpoint = { provider: 'openai', baseUrl: `${baseUrl}/v1`, apiKey: 'sk-test' };
+        const contents = await collect(streamChatCompletion(endpoint, 'gpt-4o', messages, new AbortController().signal));
+        assert.strictEqual(contents.join(''), 'Hello');
+        assert.strictEqual(mock.requests[0].authorization, 'Bearer sk-test');
+    });
+
+    test('Throws the errors reported by the endpoint', async () => {
+        const signal = new AbortController().signal;
+        await assert.rejects(collect(streamChatCompletion({ provider: 'ollama', baseUrl: `${baseUrl}/broken`, apiKey: undefined }, 'x', messages, signal)), /model not found/);
+        await assert.rejects(collect(streamChatCompletion({ provider: 'openai', baseUrl: `${baseUrl}/failing`, apiKey: undefined }, 'x', messages, signal)), /responded with 500 .*upstream down/);
+    });
+});
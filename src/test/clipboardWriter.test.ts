@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CopyPayload, describeWriteTarget, renderPayload, writePayload } from '../clipboardWriter';
+import { parseFileBlocks } from '../responseApplier';
+
+const BIG_CONTENT = Array.from({ length: 12 }, (_, index) => `line ${index + 1} of the big file`).join('\n');
+
+const payload: CopyPayload = {
+    prompt: 'Prompt\n\n',
+    epilogue: 'End\n',
+    entries: [
+        { path: 'a.txt', language: '', content: 'first small file' },
+        { path: 'big.txt', language: '', content: BIG_CONTENT },
+        { path: 'b.txt', language: '', content: 'second small file' },
+    ],
+};
+
+suite('Output Targets Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+    let tempDir: string;
+
+    setup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-targets-'));
+    });
+
+    teardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+        await config().update('chunkSize', undefined, vscode.ConfigurationTarget.Global);
+        await config().update('chunkSizeUnit', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('The file target writes the rendered content to the output file', async () => {
+        const outputUri = vscode.Uri.file(path.join(tempDir, 'context.md'));
+        const result = await writePayload(payload, 'file', { headless: true, outputUri });
+        assert.strictEqual(result?.target, 'file');
+        assert.strictEqual(await fs.promises.readFile(outputUri.fsPath, 'utf8'), (await renderPayload(payload)).text);
+        assert.strictEqual(describeWriteTarget(result!), `to ${outputUri.fsPath}`);
+    });
+
+    test('Headless writes to a file or chunks need an output path', async () => {
+        assert.strictEqual(await writePayload(payload, 'file', { headless: true }), undefined);
+        assert.strictEqual(await writePayload(payload, 'chunks', { headless: true }), undefined);
+    });
+
+    test('The chunks target splits at llmCopier.chunkSize on entry boundaries and splits oversized entries by lines', async () => {
+        await config().update('chunkSizeUnit', 'bytes', vscode.ConfigurationTarget.Global);
+        await config().update('chunkSize', 150, vscode.ConfigurationTarget.Global);
+        const result = await writePayload(payload, 'chunks', { headless: true, outputUri: vscode.Uri.file(tempDir) });
+
+        const chunkCount = result!.chunkCount!;
+        assert.ok(chunkCount > 2, `${chunkCount}`);
+        assert.strictEqual(describeWriteTarget(result!), `into ${chunkCount} chunk files in ${tempDir}`);
+        const fileNames = (await fs.promises.readdir(tempDir)).sort();
+        assert.deepStrictEqual(fileNames, Array.from({ length: chunkCount }, (_, index) => `llm-context-part-${String(index + 1).padStart(2, '0')}-of-${chunkCount}.md`));
+
+        const chunks = await Promise.all(fileNames.map(fileName => fs.promises.readFile(path.join(tempDir, fileName), 'utf8')));
+        assert.ok(chunks[0].startsWith('Prompt\n\n#### FILE: a.txt\n'), chunks[0]);
+        assert.ok(chunks[chunkCount - 1].endsWith('End\n'), chunks[chunkCount - 1]);
+        for (const chunk of chunks.slice(0, -1)) {
+            assert.ok(Buffer.byteLength(chunk) <= 150, chunk);
+        }
+
+        const changes = chunks.flatMap(chunk => parseFileBlocks(chunk).changes);
+        const bigParts = changes.filter(change => change.path.startsWith('big.txt (part '));
+        assert.ok(bigParts.length > 1);
+        assert.strictEqual(bigParts.map(change => change.newContent).join('\n'), BIG_CONTENT);
+        assert.deepStrictEqual(changes.filter(change => !bigParts.includes(change)).map(change => change.path), ['a.txt', 'b.txt']);
+    });
+});
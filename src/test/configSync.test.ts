@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { applySyncUpdates, inferSyncFormat } from '../configSync';
+
+suite('Config Sync Test Suite', () => {
+    test('inferSyncFormat maps file extensions to formats', () => {
+        assert.strictEqual(inferSyncFormat('tool.ini'), 'ini');
+        assert.strictEqual(inferSyncFormat('tool.yml'), 'yaml');
+        assert.strictEqual(inferSyncFormat('pyproject.toml'), 'toml');
+    });
+
+    test('Updates JSON keys and keeps the other keys', () => {
+        const content = '{\n    "root_folder": "/old",\n    "other": 1\n}\n';
+        assert.strictEqual(applySyncUpdates(content, 'json', [{ keyPath: ['root_folder'], value: '/new' }]), '{\n  "root_folder": "/new",\n  "other": 1\n}\n');
+    });
+
+    test('Updates INI keys in place, keeping comments', () => {
+        const content = '; tool config\n[Settings]\nroot_folder = /old\nmode = fast\n';
+        assert.strictEqual(applySyncUpdates(content, 'ini', [{ keyPath: ['Settings', 'root_folder'], value: '/new' }]), '; tool config\n[Settings]\nroot_folder = /new\nmode = fast\n');
+    });
+
+    test('Creates the section of a new INI file', () => {
+        assert.strictEqual(applySyncUpdates('', 'ini', [{ keyPath: ['Settings', 'root_folder'], value: '/new' }]), '[Settings]\nroot_folder = /new\n');
+    });
+
+    test('Appends missing TOML keys to their table', () => {
+        const content = '# c\n[tool]\nname = "x"\n';
+        assert.strictEqual(applySyncUpdates(content, 'toml', [{ keyPath: ['tool', 'root'], value: '/new' }]), '# c\n[tool]\nname = "x"\nroot = "/new"\n');
+    });
+
+    test('Updates top-level YAML keys in place, keeping comments', () => {
+        const content = '# tool\nroot_folder: /old\nmode: fast\n';
+        assert.strictEqual(applySyncUpdates(content, 'yaml', [{ keyPath: ['root_folder'], value: '/new' }]), '# tool\nroot_folder: "/new"\nmode: fast\n');
+    });
+
+    test('Updates nested YAML keys at their indentation, only under the given parent', () => {
+        const content = 'other:\n  root: keep\ntool:\n    # nested\n    root: "/old"\n    other: 1\nnext: x\n';
+        assert.strictEqual(
+            applySyncUpdates(content, 'yaml', [{ keyPath: ['tool', 'root'], value: '/new' }]),
+            'other:\n  root: keep\ntool:\n    # nested\n    root: "/new"\n    other: 1\nnext: x\n'
+        );
+    });
+
+    test('Appends missing YAML keys to their mapping and creates missing parents', () => {
+        assert.strictEqual(applySyncUpdates('tool:\n  other: 1\nnext: x\n', 'yaml', [{ keyPath: ['tool', 'root'], value: '/new' }]), 'tool:\n  other: 1\n  root: "/new"\nnext: x\n');
+        assert.strictEqual(applySyncUpdates('name: x\n', 'yaml', [{ keyPath: ['tool', 'paths', 'root'], value: '/new' }]), 'name: x\ntool:\n  paths:\n    root: "/new"\n');
+        assert.strictEqual(applySyncUpdates('', 'yaml', [{ keyPath: ['tool', 'root'], value: '/new' }]), 'tool:\n  root: "/new"\n');
+    });
+
+    test('Keeps CRLF line endings and quotes YAML values', () => {
+        assert.strictEqual(applySyncUpdates('a:\r\n  b: 1\r\n', 'yaml', [{ keyPath: ['a', 'b'], value: 'C:\\x' }]), 'a:\r\n  b: "C:\\\\x"\r\n');
+    });
+});
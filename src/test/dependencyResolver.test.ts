@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { collectDependencies } from '../dependencyResolver';
+import { createSkipSummary } from '../fileUtils';
+import { createIgnoreFilter } from '../ignoreRules';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+
+/**
+ * Collects the dependencies of a fixture file as [workspace-relative path, reason, depth].
+ */
+async function dependenciesOf(...segments: string[]): Promise<[string, string, number][]> {
+    const fileUri = vscode.Uri.joinPath(workspaceRoot, ...segments);
+    const content = await fs.promises.readFile(fileUri.fsPath, 'utf8');
+    const dependencies = await collectDependencies(fileUri, content, createIgnoreFilter(), createSkipSummary());
+    return dependencies.map(dependency => [path.relative(workspaceRoot.fsPath, dependency.uri.fsPath), dependency.reason, dependency.depth]);
+}
+
+suite('Dependency Resolver Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+
+    teardown(async () => {
+        await config().update('dependencyDepth', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('Resolves relative imports, index files and jsconfig paths and baseUrl, but not packages', async () => {
+        const js = (...segments: string[]) => path.join('imports', 'js', ...segments);
+        assert.deepStrictEqual(await dependenciesOf('imports', 'js', 'main.js'), [
+            [js('helpers.js'), `imported by ${js('main.js')} as "./helpers"`, 1],
+            [js('lib', 'thing.js'), `imported by ${js('main.js')} as "@lib/thing"`, 1],
+            [js('shared', 'config.js'), `imported by ${js('main.js')} as "shared/config"`, 1],
+            [js('deep', 'index.js'), `imported by ${js('helpers.js')} as "./deep"`, 2],
+        ]);
+    });
+
+    test('Follows imports up to llmCopier.dependencyDepth levels', async () => {
+        await config().update('dependencyDepth', 1, vscode.ConfigurationTarget.Global);
+        assert.deepStrictEqual((await dependenciesOf('imports', 'js', 'main.js')).map(([relativePath]) => relativePath), [
+            path.join('imports', 'js', 'helpers.js'),
+            path.join('imports', 'js', 'lib', 'thing.js'),
+            path.join('imports', 'js', 'shared', 'config.js'),
+        ]);
+
+        await config().update('dependencyDepth', 3, vscode.ConfigurationTarget.Global);
+        assert.strictEqual((await dependenciesOf('imports', 'js', 'main.js')).pop()?.[0], path.join('imports', 'js', 'deeper.js'));
+    });
+
+    test('Resolves Python relative imports, packages and imported submodules', async () => {
+        const py = (...segments: string[]) => path.join('imports', 'py', 'app', ...segments);
+        assert.deepStrictEqual(await dependenciesOf('imports', 'py', 'app', 'main.py'), [
+            [py('sibling.py'), `imported by ${py('main.py')} as ".sibling"`, 1],
+            [py('pkg', '__init__.py'), `imported by ${py('main.py')} as "pkg"`, 1],
+            [py('pkg', 'mod.py'), `imported by ${py('main.py')} as "pkg"`, 1],
+        ]);
+    });
+
+    test('Resolves Go imports of the same module to the package sources without tests', async () => {
+        const go = (...segments: string[]) => path.join('imports', 'go', ...segments);
+        const reason = `imported by ${go('main.go')} as package "example.com/app/util"`;
+        assert.deepStrictEqual(await dependenciesOf('imports', 'go', 'main.go'), [
+            [go('util', 'strings.go'), reason, 1],
+            [go('util', 'util.go'), reason, 1],
+        ]);
+    });
+});
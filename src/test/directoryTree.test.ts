@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { buildDirectoryTreeHeader, getDirectoryTreeRoots } from '../directoryTree';
+import { createIgnoreFilter } from '../ignoreRules';
+import { ContentEntry } from '../outputFormats';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+const fixtureUri = (...segments: string[]) => vscode.Uri.joinPath(workspaceRoot, ...segments);
+
+function writtenEntry(outlined: boolean, ...segments: string[]): ContentEntry {
+    return { path: segments.join('/'), language: '', content: '', uri: fixtureUri(...segments), outlined };
+}
+
+suite('Directory Tree Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+
+    teardown(async () => {
+        for (const key of ['includeDirectoryTree', 'directoryTreeDepth', 'directoryTreeRoot']) {
+            await config().update(key, undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('Builds nothing unless llmCopier.includeDirectoryTree is enabled', async () => {
+        assert.strictEqual(await buildDirectoryTreeHeader([fixtureUri('src')], [], createIgnoreFilter()), '');
+    });
+
+    test('Lists folders first, skips ignored and binary files and marks the included files', async () => {
+        await config().update('includeDirectoryTree', true, vscode.ConfigurationTarget.Global);
+        assert.strictEqual(await buildDirectoryTreeHeader([fixtureUri('src')], [writtenEntry(false, 'src', 'app.js')], createIgnoreFilter()), [
+            'Directory tree (files marked with * are included below):',
+            '```',
+            'src/',
+            '├── nested/',
+            '│   └── deep/',
+            '│       └── notes.md',
+            '├── .llmcopierignore',
+            '├── app.js *',
+            '└── util.js',
+            '```',
+            '',
+            '',
+        ].join('\n'));
+    });
+
+    test('Marks outlined files separately from the files included in full', async () => {
+        await config().update('includeDirectoryTree', true, vscode.ConfigurationTarget.Global);
+        const header = await buildDirectoryTreeHeader([fixtureUri('src')], [writtenEntry(false, 'src', 'app.js'), writtenEntry(true, 'src', 'util.js')], createIgnoreFilter());
+        assert.ok(header.startsWith('Directory tree (files marked with * are included below, files marked with (outline) only as an outline):\n'), header);
+        assert.ok(header.endsWith('├── app.js *\n└── util.js (outline)\n```\n\n'), header);
+    });
+
+    test('Collapses folders below llmCopier.directoryTreeDepth', async () => {
+        await config().update('includeDirectoryTree', true, vscode.ConfigurationTarget.Global);
+        await config().update('directoryTreeDepth', 1, vscode.ConfigurationTarget.Global);
+        const header = await buildDirectoryTreeHeader([fixtureUri('src')], [], createIgnoreFilter());
+        assert.ok(header.includes('src/\n├── nested/\n│   └── …\n├── .llmcopierignore\n'), header);
+    });
+
+    test('Roots the tree at the selected folders, the common parent of the selected files, or the workspace folder', async () => {
+        const fsPaths = (uris: vscode.Uri[]) => uris.map(uri => uri.fsPath);
+        assert.deepStrictEqual(fsPaths(getDirectoryTreeRoots([fixtureUri('src'), fixtureUri('assets')], true)), fsPaths([fixtureUri('src'), fixtureUri('assets')]));
+        assert.deepStrictEqual(fsPaths(getDirectoryTreeRoots([fixtureUri('src', 'app.js'), fixtureUri('src', 'nested', 'deep', 'notes.md')], false)), fsPaths([fixtureUri('src')]));
+
+        await config().update('directoryTreeRoot', 'workspace', vscode.ConfigurationTarget.Global);
+        assert.deepStrictEqual(fsPaths(getDirectoryTreeRoots([fixtureUri('src'), fixtureUri('assets')], true)), fsPaths([workspaceRoot]));
+    });
+});
@@ -1,15 +1,426 @@
 import * as assert from 'assert';
-
-// You can import and use all API from the 'vscode' module
-// as well as import your extension to test it
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import { LlmCopierApi } from '../api';
+import { getRepositoryRoot } from '../gitUtils';
+
+// Runs in src/test/fixtures/workspace (see .vscode-test.mjs), whose settings pin the output format and
+// disable the dialogs, so every command writes straight to the clipboard
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+const fixtureUri = (...segments: string[]) => vscode.Uri.joinPath(workspaceRoot, ...segments);
+
+const PROMPT = 'Review the following code.\n\n';
+const APP_JS = "const { greet } = require('./util');\n\nconsole.log(greet('world'));\n";
+const UTIL_JS = 'function greet(name) {\n    return `Hello, ${name}!`;\n}\n\nmodule.exports = { greet };\n';
+const NOTES_MD = '# Notes\n\nNested two folders deep.\n';
+
+function fileBlock(entryPath: string, language: string, content: string, note?: string): string {
+    return `#### FILE: ${entryPath}\n\`\`\`${language}\n${content}\n\`\`\`\n${note ? `_${note}_\n` : ''}\n`;
+}
+
+/**
+ * Clears the clipboard, runs the command and returns what it copied.
+ */
+async function copyWith(command: string, ...args: unknown[]): Promise<string> {
+    await vscode.env.clipboard.writeText('');
+    await vscode.commands.executeCommand(command, ...args);
+    return vscode.env.clipboard.readText();
+}
+
+/**
+ * Splits Markdown output into its "#### FILE:" blocks, sorted, for copies whose file order follows the file system.
+ */
+function splitBlocks(text: string): string[] {
+    return text.split(/(?=^#### FILE: )/m).sort();
+}
+
+/**
+ * Replaces `vscode.window` functions, such as the dialogs a command opens, while the callback runs.
+ */
+async function withWindowStubs(stubs: Record<string, (...args: any[]) => unknown>, run: () => Promise<void>): Promise<void> {
+    const window = vscode.window as unknown as Record<string, unknown>;
+    const originals = Object.fromEntries(Object.keys(stubs).map(name => [name, window[name]]));
+    Object.assign(window, stubs);
+    try {
+        await run();
+    } finally {
+        Object.assign(window, originals);
+    }
+}
+
+/**
+ * A `showQuickPick` stub that answers successive quick picks with the given choosers.
+ */
+function answerQuickPicks(...choosers: ((items: any[]) => unknown)[]) {
+    return async (items: any[] | Thenable<any[]>) => choosers.shift()?.(await items);
+}
 
 suite('Extension Test Suite', () => {
-	vscode.window.showInformationMessage('Start all tests.');
+    teardown(async () => {
+        await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    });
+
+    test('Registers every contributed llmCopier command', async () => {
+        const extension = vscode.extensions.getExtension('pica-sol.llm-code-copier')!;
+        await extension.activate();
+        const registered = new Set(await vscode.commands.getCommands(true));
+        const contributed: { command: string }[] = extension.packageJSON.contributes.commands;
+        assert.deepStrictEqual(contributed.map(({ command }) => command).filter(command => !registered.has(command)), []);
+    });
+
+    test('Copy File Name And Content copies the prompt and the file', async () => {
+        const appUri = fixtureUri('src', 'app.js');
+        const text = await copyWith('llmCopier.copyFileNamesAndContent', appUri, [appUri]);
+        assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS));
+    });
+
+    test('Copy File Name And Content skips binary files in a multi-selection', async () => {
+        const appUri = fixtureUri('src', 'app.js');
+        const text = await copyWith('llmCopier.copyFileNamesAndContent', appUri, [appUri, fixtureUri('assets', 'logo.png')]);
+        assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS));
+    });
+
+    test('Copy Active File Name And Content copies the active editor', async () => {
+        await vscode.window.showTextDocument(fixtureUri('src', 'util.js'));
+        const text = await copyWith('llmCopier.copyOneFile');
+        assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS));
+    });
+
+    test('Copy Selected Text copies the selection with its range', async () => {
+        const editor = await vscode.window.showTextDocument(fixtureUri('src', 'util.js'));
+        editor.selection = new vscode.Selection(1, 4, 1, 29);
+        const text = await copyWith('llmCopier.copySelectedText');
+        assert.strictEqual(text, PROMPT + fileBlock(`${path.join('src', 'util.js')}:2:5-2:30`, 'javascript', 'return `Hello, ${name}!`;'));
+    });
+
+    test('Copy Folder Content copies nested folders and skips ignored and binary files', async () => {
+        const srcUri = fixtureUri('src');
+        const text = await copyWith('llmCopier.copyFolderContent', srcUri, [srcUri]);
+        assert.ok(text.startsWith(PROMPT));
+        assert.deepStrictEqual(splitBlocks(text.slice(PROMPT.length)), [
+            fileBlock(path.join('src', '.llmcopierignore'), 'ignore', 'generated/\n'),
+            fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS),
+            fileBlock(path.join('src', 'nested', 'deep', 'notes.md'), 'markdown', NOTES_MD),
+            fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS),
+        ].sort());
+    });
+
+    test('Copy Folder Content copies an explicitly selected folder that the ignore rules exclude', async () => {
+        const generatedUri = fixtureUri('src', 'generated');
+        const text = await copyWith('llmCopier.copyFolderContent', generatedUri, [generatedUri]);
+        assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'generated', 'output.js'), 'javascript', '// Generated, skipped by src/.llmcopierignore\n'));
+    });
+
+    test('The directory tree marks only the files actually copied', async () => {
+        const config = () => vscode.workspace.getConfiguration('llmCopier');
+        await config().update('includeDirectoryTree', true, vscode.ConfigurationTarget.Global);
+        await config().update('secretFileDenylist', ['util.js'], vscode.ConfigurationTarget.Global);
+        try {
+            const srcUri = fixtureUri('src');
+            const text = await copyWith('llmCopier.copyFolderContent', srcUri, [srcUri]);
+            assert.ok(text.startsWith(`${PROMPT}Directory tree (files marked with * are included below):\n\`\`\`\nsrc/\n`), text);
+            assert.ok(text.includes('── app.js *\n'), text);
+            assert.ok(text.includes('── util.js\n'), text);
+            assert.ok(!text.includes('generated/'), text);
+            assert.ok(!text.includes(`#### FILE: ${path.join('src', 'util.js')}`), text);
+        } finally {
+            await config().update('includeDirectoryTree', undefined, vscode.ConfigurationTarget.Global);
+            await config().update('secretFileDenylist', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('The directory tree marks outlined files with (outline) instead of *', async () => {
+        const config = () => vscode.workspace.getConfiguration('llmCopier');
+        await config().update('includeDirectoryTree', true, vscode.ConfigurationTarget.Global);
+        await config().update('compressionMode', 'outline', vscode.ConfigurationTarget.Global);
+        try {
+            const srcUri = fixtureUri('src');
+            const text = await copyWith('llmCopier.copyFolderContent', srcUri, [srcUri]);
+            assert.ok(text.includes('── app.js *\n'), text);
+            assert.ok(text.includes('── util.js (outline)\n'), text);
+            assert.ok(text.includes(`#### FILE: ${path.join('src', 'util.js')} (outline)\n`), text);
+        } finally {
+            await config().update('includeDirectoryTree', undefined, vscode.ConfigurationTarget.Global);
+            await config().update('compressionMode', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('Copy Folder Content To... writes to the chosen target instead of the clipboard', async () => {
+        const outputPath = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-output-')), 'context.md');
+        try {
+            await withWindowStubs({
+                showQuickPick: answerQuickPicks(items => items.find(item => item.target === 'file')),
+                showSaveDialog: async () => vscode.Uri.file(outputPath),
+            }, async () => {
+                const nestedUri = fixtureUri('src', 'nested');
+                assert.strictEqual(await copyWith('llmCopier.copyFolderContentTo', nestedUri, [nestedUri]), '');
+            });
+            assert.strictEqual(await fs.promises.readFile(outputPath, 'utf8'), PROMPT + fileBlock(path.join('src', 'nested', 'deep', 'notes.md'), 'markdown', NOTES_MD));
+        } finally {
+            await fs.promises.rm(path.dirname(outputPath), { recursive: true, force: true });
+        }
+    });
+
+    test('Copy All Open Files copies the open documents with their unsaved changes', async () => {
+        await vscode.workspace.openTextDocument(fixtureUri('src', 'app.js'));
+        const editor = await vscode.window.showTextDocument(fixtureUri('src', 'util.js'));
+        await editor.edit(editBuilder => editBuilder.replace(new vscode.Range(1, 12, 1, 17), 'Hi'));
+        try {
+            // Documents opened by earlier tests may still be loaded
+            const text = await copyWith('llmCopier.copyAllOpenFiles');
+            assert.ok(text.startsWith(PROMPT), text);
+            const blocks = splitBlocks(text.slice(PROMPT.length));
+            assert.ok(blocks.includes(fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS)), blocks.join(''));
+            assert.ok(blocks.includes(fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS.replace('Hello', 'Hi'))), blocks.join(''));
+        } finally {
+            await vscode.commands.executeCommand('workbench.action.files.revert');
+        }
+    });
+
+    test('Copy File With Dependencies appends the local imports', async () => {
+        const text = await copyWith('llmCopier.copyFileWithDependencies', fixtureUri('src', 'app.js'));
+        assert.strictEqual(text, PROMPT
+            + fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS)
+            + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS, `imported by ${path.join('src', 'app.js')} as "./util"`));
+    });
+
+    test('Copy Problems With Context copies diagnostics and the lines around them', async () => {
+        const utilUri = fixtureUri('src', 'util.js');
+        const diagnostics = vscode.languages.createDiagnosticCollection('llmCopierTest');
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(1, 11, 1, 16), 'Unexpected template', vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'test';
+        diagnostic.code = 'T1';
+        diagnostics.set(utilUri, [diagnostic]);
+        try {
+            const text = await copyWith('llmCopier.copyProblemsWithContext', utilUri, [utilUri]);
+            const utilPath = path.join('src', 'util.js');
+            assert.strictEqual(text, PROMPT
+                + fileBlock('problems (1 in 1 file)', '', `${utilPath}:2:12 error test(T1): Unexpected template`)
+                + fileBlock(`${utilPath}:1-3 (error at 2:12)`, 'javascript', 'function greet(name) {\n    return `Hello, ${name}!`;\n}'));
+        } finally {
+            diagnostics.dispose();
+        }
+    });
+
+    test('Copy Files Matching Glob accepts an options object', async () => {
+        const text = await copyWith('llmCopier.copyContext', { globs: ['src/nested/**/*.md'], prompt: 'Summarize.', format: 'xml' });
+        assert.strictEqual(text, `Summarize.\n\n<documents>\n<document path="${path.join('src', 'nested', 'deep', 'notes.md')}">\n<![CDATA[${NOTES_MD}]]>\n</document>\n</documents>\n`);
+    });
+
+    test('Copy Folder Content accepts an options object instead of explorer URIs', async () => {
+        const text = await copyWith('llmCopier.copyFolderContent', { uris: ['src/nested'], prompt: true });
+        assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'nested', 'deep', 'notes.md'), 'markdown', NOTES_MD));
+    });
+
+    test('The API builds context with metadata without copying', async () => {
+        const api = await vscode.extensions.getExtension<LlmCopierApi>('pica-sol.llm-code-copier')!.activate();
+        await vscode.env.clipboard.writeText('unchanged');
+        const result = await api.buildContext({ uris: ['src/util.js', 'assets/logo.png'], prompt: true });
+        assert.strictEqual(result.text, PROMPT + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS));
+        assert.deepStrictEqual(result.files, [path.join('src', 'util.js')]);
+        assert.deepStrictEqual(result.skipped, { 'binary file': 1 });
+        assert.strictEqual(await vscode.env.clipboard.readText(), 'unchanged');
+    });
+
+    test('Copy Diff Since Last Copy copies the changes of the last copied files', async () => {
+        const utilUri = fixtureUri('src', 'util.js');
+        await copyWith('llmCopier.copyFileNamesAndContent', utilUri, [utilUri]);
+
+        const editor = await vscode.window.showTextDocument(utilUri);
+        await editor.edit(editBuilder => editBuilder.replace(new vscode.Range(1, 12, 1, 17), 'Hi'));
+        try {
+            const text = await copyWith('llmCopier.copyDiffSinceLastCopy');
+            const utilPath = path.join('src', 'util.js');
+            assert.ok(text.startsWith(`${PROMPT}#### FILE: changes since `), text);
+            assert.ok(text.includes([
+                `--- a/${utilPath}`,
+                `+++ b/${utilPath}`,
+                '@@ -1,5 +1,5 @@',
+                ' function greet(name) {',
+                '-    return `Hello, ${name}!`;',
+                '+    return `Hi, ${name}!`;',
+                ' }',
+                ' ',
+                ' module.exports = { greet };',
+            ].join('\n')), text);
+        } finally {
+            await vscode.commands.executeCommand('workbench.action.files.revert');
+        }
+    });
+
+    test('Copy Changed Files Since Last Copy copies only the files edited since', async () => {
+        const appUri = fixtureUri('src', 'app.js');
+        const utilUri = fixtureUri('src', 'util.js');
+        await copyWith('llmCopier.copyFileNamesAndContent', appUri, [appUri, utilUri]);
+
+        const editor = await vscode.window.showTextDocument(utilUri);
+        await editor.edit(editBuilder => editBuilder.replace(new vscode.Range(1, 12, 1, 17), 'Hi'));
+        try {
+            const text = await copyWith('llmCopier.copyChangedFilesSinceLastCopy');
+            assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS.replace('Hello', 'Hi')));
+        } finally {
+            await vscode.commands.executeCommand('workbench.action.files.revert');
+        }
+    });
+
+    test('Show Copy History re-copies a past copy with the current contents', async () => {
+        const appUri = fixtureUri('src', 'app.js');
+        await copyWith('llmCopier.copyFileNamesAndContent', appUri, [appUri]);
+
+        const editor = await vscode.window.showTextDocument(appUri);
+        await editor.edit(editBuilder => editBuilder.insert(new vscode.Position(0, 0), '// Edited\n'));
+        try {
+            await withWindowStubs({
+                showQuickPick: answerQuickPicks(records => records[0], actions => actions.find(action => action.label.includes('Re-copy'))),
+            }, async () => {
+                const text = await copyWith('llmCopier.showCopyHistory');
+                assert.strictEqual(text, PROMPT + fileBlock(path.join('src', 'app.js'), 'javascript', `// Edited\n${APP_JS}`));
+            });
+        } finally {
+            await vscode.commands.executeCommand('workbench.action.files.revert');
+        }
+    });
+
+    test('Bundles collect files, folders and globs, copy them in order and can be deleted', async () => {
+        const bundleName = `Test bundle ${Date.now()}`;
+        const inputs = [bundleName, 'src/app.*'];
+        await withWindowStubs({
+            showInputBox: async () => inputs.shift(),
+            showQuickPick: async () => bundleName,
+            showWarningMessage: async () => 'Delete',
+        }, async () => {
+            await vscode.commands.executeCommand('llmCopier.createBundle');
+            const utilUri = fixtureUri('src', 'util.js');
+            await vscode.commands.executeCommand('llmCopier.addToBundle', utilUri, [utilUri, fixtureUri('src', 'nested')]);
+            await vscode.commands.executeCommand('llmCopier.addGlobToBundle');
+
+            assert.strictEqual(await copyWith('llmCopier.copyBundle'), PROMPT
+                + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS)
+                + fileBlock(path.join('src', 'nested', 'deep', 'notes.md'), 'markdown', NOTES_MD)
+                + fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS));
+
+            await vscode.commands.executeCommand('llmCopier.deleteBundle');
+            assert.strictEqual(await copyWith('llmCopier.copyBundle'), '');
+        });
+    });
+
+    test('Bundles in .llmcopier/bundles.json without an items array are skipped with a warning', async () => {
+        const config = vscode.workspace.getConfiguration('llmCopier');
+        const bundlesFolder = fixtureUri('.llmcopier');
+        await fs.promises.mkdir(bundlesFolder.fsPath, { recursive: true });
+        await fs.promises.writeFile(path.join(bundlesFolder.fsPath, 'bundles.json'), JSON.stringify({
+            bundles: [{ name: 'Valid', items: [{ type: 'file', path: 'src/util.js' }] }, { name: 'Broken' }],
+        }));
+        await config.update('bundleStorage', 'file', vscode.ConfigurationTarget.Global);
+        const warnings: string[] = [];
+        let offeredNames: string[] = [];
+        try {
+            await withWindowStubs({
+                showWarningMessage: async (message: string) => { warnings.push(message); },
+                showQuickPick: async (names: string[]) => { offeredNames = names; return 'Valid'; },
+            }, async () => {
+                assert.strictEqual(await copyWith('llmCopier.copyBundle'), PROMPT + fileBlock(path.join('src', 'util.js'), 'javascript', UTIL_JS));
+            });
+            assert.deepStrictEqual(offeredNames, ['Valid']);
+            assert.ok(warnings.some(message => message.startsWith('Skipped 1 malformed bundle in .llmcopier/bundles.json')), warnings.join('\n'));
+        } finally {
+            await config.update('bundleStorage', undefined, vscode.ConfigurationTarget.Global);
+            await fs.promises.rm(bundlesFolder.fsPath, { recursive: true, force: true });
+        }
+    });
+
+    suite('Git diffs', () => {
+        const notesPath = fixtureUri('src', 'nested', 'deep', 'notes.md').fsPath;
+
+        suiteSetup(async function () {
+            if (!await getRepositoryRoot(workspaceRoot.fsPath)) {
+                this.skip();
+            }
+        });
+
+        // The fixture is part of this repository, so editing it on disk makes a working tree change
+        setup(async () => {
+            await fs.promises.writeFile(notesPath, `${NOTES_MD}Changed for the git diff test.\n`);
+        });
+
+        teardown(async () => {
+            await fs.promises.writeFile(notesPath, NOTES_MD);
+        });
+
+        test('Copy Working Tree Diff copies the unstaged changes and the untracked files', async () => {
+            const untrackedUri = fixtureUri('src', 'nested', 'untracked-ü.txt');
+            await fs.promises.writeFile(untrackedUri.fsPath, 'Untracked for the git diff test.\n');
+            try {
+                const text = await copyWith('llmCopier.copyWorkingTreeDiff');
+                assert.ok(text.startsWith(`${PROMPT}#### FILE: git diff (unstaged changes and untracked files)\n\`\`\`diff\n`), text);
+                assert.ok(text.includes(' Nested two folders deep.\n+Changed for the git diff test.\n'), text);
+                assert.ok(text.includes('src/nested/untracked-ü.txt\n@@ -0,0 +1,1 @@\n+Untracked for the git diff test.\n'), text);
+            } finally {
+                await fs.promises.rm(untrackedUri.fsPath, { force: true });
+            }
+        });
+
+        test('Copy Branch Diff diffs the working tree against the entered ref', async () => {
+            await withWindowStubs({
+                showQuickPick: answerQuickPicks(items => items.find(item => item.label.startsWith('$(git-commit)'))),
+                showInputBox: async () => 'HEAD',
+            }, async () => {
+                const text = await copyWith('llmCopier.copyBranchDiff');
+                assert.ok(text.startsWith(`${PROMPT}#### FILE: git diff (changes against HEAD)\n`), text);
+                assert.ok(text.includes('+Changed for the git diff test.\n'), text);
+            });
+        });
+
+        test('Copy Branch Diff refuses refs that are not commits, such as options', async () => {
+            const errors: string[] = [];
+            await withWindowStubs({
+                showQuickPick: answerQuickPicks(items => items.find(item => item.label.startsWith('$(git-commit)'))),
+                showInputBox: async () => '--output=llm-copier-test.diff',
+                showErrorMessage: async (message: string) => { errors.push(message); },
+            }, async () => {
+                assert.strictEqual(await copyWith('llmCopier.copyBranchDiff'), '');
+            });
+            assert.deepStrictEqual(errors, ['Not a branch, tag or commit: --output=llm-copier-test.diff']);
+        });
+    });
+
+    test('Apply Response From Clipboard applies the accepted file blocks', async () => {
+        const utilUri = fixtureUri('src', 'util.js');
+        const newFileUri = fixtureUri('src', 'applied.txt');
+        await vscode.env.clipboard.writeText('Here you go:\n\n'
+            + fileBlock('src/util.js', 'javascript', UTIL_JS.replace('Hello', 'Howdy'))
+            + fileBlock('src/applied.txt', '', 'Applied by the test.\n'));
+        try {
+            await withWindowStubs({
+                showQuickPick: answerQuickPicks(items => items.filter(item => item.picked)),
+            }, async () => {
+                await vscode.commands.executeCommand('llmCopier.applyResponseFromClipboard');
+            });
+            assert.strictEqual((await vscode.workspace.openTextDocument(utilUri)).getText(), UTIL_JS.replace('Hello', 'Howdy'));
+            assert.strictEqual((await vscode.workspace.openTextDocument(newFileUri)).getText(), 'Applied by the test.\n');
+        } finally {
+            for (const uri of [utilUri, newFileUri].filter(uri => fs.existsSync(uri.fsPath))) {
+                await vscode.window.showTextDocument(uri);
+                await vscode.commands.executeCommand('workbench.action.files.revert');
+            }
+            await fs.promises.rm(newFileUri.fsPath, { force: true });
+        }
+    });
+
+    test('Toggle Include prompt.txt flips the user setting', async () => {
+        const config = () => vscode.workspace.getConfiguration('llmCopier');
+        try {
+            await vscode.commands.executeCommand('llmCopier.toggleIncludePromptFile');
+            assert.strictEqual(config().inspect<boolean>('includePromptFile')?.globalValue, false);
+            const appUri = fixtureUri('src', 'app.js');
+            assert.strictEqual(await copyWith('llmCopier.copyFileNamesAndContent', appUri, [appUri]), fileBlock(path.join('src', 'app.js'), 'javascript', APP_JS));
 
-	test('Sample test', () => {
-		assert.strictEqual(-1, [1, 2, 3].indexOf(5));
-		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
-	});
+            await vscode.commands.executeCommand('llmCopier.toggleIncludePromptFile');
+            assert.strictEqual(config().inspect<boolean>('includePromptFile')?.globalValue, true);
+        } finally {
+            await config().update('includePromptFile', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
 });
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { decodeFileContent } from '../encoding';
+import { createSkipSummary, formatFileContentForClipboard, getLanguageForUri, getWorkspaceRootForUri, isLikelyBinary, readTextFile } from '../fileUtils';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+const fixtureUri = (...segments: string[]) => vscode.Uri.joinPath(workspaceRoot, ...segments);
+
+suite('File Utils Test Suite', () => {
+    let tempDir: string;
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-test-'));
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function writeTempFile(name: string, content: Buffer | string): Promise<vscode.Uri> {
+        const filePath = path.join(tempDir, name);
+        await fs.promises.writeFile(filePath, content);
+        return vscode.Uri.file(filePath);
+    }
+
+    test('isLikelyBinary detects binary files but not text, UTF-16 or empty files', async () => {
+        assert.strictEqual(await isLikelyBinary(fixtureUri('assets', 'logo.png')), true);
+        assert.strictEqual(await isLikelyBinary(fixtureUri('src', 'app.js')), false);
+        assert.strictEqual(await isLikelyBinary(await writeTempFile('utf16.txt', Buffer.from('\ufeffconst a = 1;\n', 'utf16le'))), false);
+        assert.strictEqual(await isLikelyBinary(await writeTempFile('empty.txt', '')), false);
+    });
+
+    test('getWorkspaceRootForUri matches the containing folder only', () => {
+        assert.strictEqual(getWorkspaceRootForUri(fixtureUri('src', 'app.js'))?.toString(), workspaceRoot.toString());
+        assert.strictEqual(getWorkspaceRootForUri(vscode.Uri.file(path.join(tempDir, 'outside.js'))), undefined);
+        // A sibling whose name starts with the workspace folder's name is outside it
+        assert.strictEqual(getWorkspaceRootForUri(vscode.Uri.file(`${workspaceRoot.fsPath}2${path.sep}app.js`)), undefined);
+    });
+
+    test('formatFileContentForClipboard uses the relative path and a longer fence around backticks', () => {
+        const appUri = fixtureUri('src', 'app.js');
+        assert.strictEqual(formatFileContentForClipboard(appUri, 'let a;'), `#### FILE: ${path.join('src', 'app.js')}\n\`\`\`javascript\nlet a;\n\`\`\`\n\n`);
+        assert.strictEqual(formatFileContentForClipboard(appUri, '```js\nx\n```'), `#### FILE: ${path.join('src', 'app.js')}\n\`\`\`\`javascript\n\`\`\`js\nx\n\`\`\`\n\`\`\`\`\n\n`);
+    });
+
+    test('getLanguageForUri prefers the document language and maps extensions and dotfiles', () => {
+        const fileUri = (name: string) => vscode.Uri.file(path.join(tempDir, name));
+        assert.strictEqual(getLanguageForUri(fileUri('a.js'), 'javascriptreact'), 'javascriptreact');
+        assert.strictEqual(getLanguageForUri(fileUri('a.MTS')), 'typescript');
+        assert.strictEqual(getLanguageForUri(fileUri('query.sql')), 'sql');
+        assert.strictEqual(getLanguageForUri(fileUri('.gitignore')), 'ignore');
+        assert.strictEqual(getLanguageForUri(fileUri('notes.txt'), 'plaintext'), '');
+        assert.strictEqual(getLanguageForUri(fileUri('Makefile')), '');
+    });
+
+    test('readTextFile decodes UTF-16 with a byte order mark', async () => {
+        const fileUri = await writeTempFile('utf16-bom.txt', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('héllo\n', 'utf16le')]));
+        assert.strictEqual(await readTextFile(fileUri, createSkipSummary()), 'héllo\n');
+    });
+
+    test('readTextFile truncates files above llmCopier.maxFileSize', async () => {
+        const config = vscode.workspace.getConfiguration('llmCopier');
+        const lines = Array.from({ length: 400 }, (_, index) => `line ${index}`);
+        const fileUri = await writeTempFile('large.txt', `${lines.join('\n')}\n`);
+        await config.update('maxFileSize', 1, vscode.ConfigurationTarget.Global);
+        try {
+            const skipSummary = createSkipSummary();
+            const content = await readTextFile(fileUri, skipSummary);
+            assert.ok(content?.startsWith('line 0\nline 1\n'), content);
+            assert.ok(content?.includes('[... truncated: about '), content);
+            assert.ok(content?.endsWith('line 399\n'), content);
+            assert.strictEqual(skipSummary.truncatedPathsByReason.get('larger than 1.0 KB')?.length, 1);
+        } finally {
+            await config.update('maxFileSize', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('isLikelyBinary still detects binary files when files.encoding is UTF-16', async () => {
+        const filesConfig = vscode.workspace.getConfiguration('files');
+        await filesConfig.update('encoding', 'utf16le', vscode.ConfigurationTarget.Global);
+        try {
+            assert.strictEqual(await isLikelyBinary(fixtureUri('assets', 'logo.png')), true);
+            assert.strictEqual(await isLikelyBinary(await writeTempFile('utf16-no-bom.txt', Buffer.from('const a = 1;\n', 'utf16le'))), false);
+        } finally {
+            await filesConfig.update('encoding', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('decodeFileContent strips byte order marks and detects UTF-16 without one', () => {
+        const fileUri = fixtureUri('src', 'app.js');
+        assert.strictEqual(decodeFileContent(Buffer.from('\ufeffconst a = 1;\n', 'utf8'), fileUri), 'const a = 1;\n');
+        assert.strictEqual(decodeFileContent(Buffer.from('\ufeffhé\n', 'utf16le'), fileUri), 'hé\n');
+        assert.strictEqual(decodeFileContent(Buffer.from('const a = 1;\n', 'utf16le'), fileUri), 'const a = 1;\n');
+    });
+
+    test('decodeFileContent falls back to files.encoding', async () => {
+        const filesConfig = vscode.workspace.getConfiguration('files');
+        await filesConfig.update('encoding', 'windows1252', vscode.ConfigurationTarget.Global);
+        try {
+            assert.strictEqual(decodeFileContent(Buffer.from([0x63, 0x61, 0x66, 0xe9]), fixtureUri('src', 'app.js')), 'café');
+        } finally {
+            await filesConfig.update('encoding', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+});
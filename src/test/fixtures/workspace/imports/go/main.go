@@ -0,0 +1,11 @@
+package main
+
+import (
+	"fmt"
+
+	"example.com/app/util"
+)
+
+func main() {
+	fmt.Println(util.Upper("x"))
+}
@@ -0,0 +1,5 @@
+package util
+
+func Upper(s string) string {
+	return trim(s)
+}
@@ -0,0 +1,5 @@
+package util
+
+import "testing"
+
+func TestUpper(t *testing.T) {}
@@ -0,0 +1,3 @@
+import '../deeper.js';
+
+export const deep = (...args) => args.join(' ');
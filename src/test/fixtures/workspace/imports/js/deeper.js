@@ -0,0 +1 @@
+export const deeper = true;
@@ -0,0 +1 @@
+export { deep as greet } from './deep';
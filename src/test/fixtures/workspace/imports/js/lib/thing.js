@@ -0,0 +1 @@
+export const thing = 'thing';
@@ -0,0 +1,6 @@
+import { greet } from './helpers';
+import { thing } from '@lib/thing';
+import config from 'shared/config';
+import lodash from 'lodash';
+
+console.log(greet(thing, config, lodash));
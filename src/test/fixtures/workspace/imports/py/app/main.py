@@ -0,0 +1,8 @@
+import os
+from .sibling import helper
+from pkg import (
+    mod,
+    missing,
+)
+
+print(helper(), mod, missing, os)
@@ -0,0 +1,3 @@
+const { greet } = require('./util');
+
+console.log(greet('world'));
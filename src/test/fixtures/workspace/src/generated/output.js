@@ -0,0 +1 @@
+// Generated, skipped by src/.llmcopierignore
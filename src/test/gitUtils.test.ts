@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDiff, listUntrackedFiles, resolveCommit, runGit } from '../gitUtils';
+
+suite('Git Utils Test Suite', () => {
+    let repositoryRoot: string;
+    let firstCommit: string;
+
+    suiteSetup(async () => {
+        repositoryRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-git-'));
+        const git = (...args: string[]) => runGit(['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], repositoryRoot);
+        await git('init', '-q');
+        await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), 'one\n');
+        await fs.promises.writeFile(path.join(repositoryRoot, 'ü.txt'), 'one\n');
+        await git('add', '.');
+        await git('commit', '-q', '-m', 'first');
+        await git('tag', 'v1');
+        firstCommit = (await git('rev-parse', 'HEAD')).trim();
+        await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), 'two\n');
+        await fs.promises.writeFile(path.join(repositoryRoot, 'ü.txt'), 'two\n');
+        await fs.promises.writeFile(path.join(repositoryRoot, 'new ü.txt'), 'new\n');
+        await fs.promises.writeFile(path.join(repositoryRoot, '.gitignore'), 'ignored.txt\n');
+        await fs.promises.writeFile(path.join(repositoryRoot, 'ignored.txt'), 'ignored\n');
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+    });
+
+    test('resolveCommit resolves branches, tags and commits', async () => {
+        assert.strictEqual(await resolveCommit('v1', repositoryRoot), firstCommit);
+        assert.strictEqual(await resolveCommit(firstCommit.slice(0, 8), repositoryRoot), firstCommit);
+    });
+
+    test('resolveCommit rejects unknown refs and option-like input', async () => {
+        assert.strictEqual(await resolveCommit('no-such-branch', repositoryRoot), undefined);
+        assert.strictEqual(await resolveCommit('--output=/tmp/x', repositoryRoot), undefined);
+    });
+
+    test('getDiff diffs the working tree against a commit and lists the paths verbatim', async () => {
+        const { diff, changedPaths } = await getDiff(['--end-of-options', firstCommit], repositoryRoot);
+        assert.match(diff, /-one\n\+two\n/);
+        assert.deepStrictEqual(changedPaths, ['a.txt', 'ü.txt']);
+    });
+
+    test('listUntrackedFiles lists the untracked files that are not ignored', async () => {
+        assert.deepStrictEqual((await listUntrackedFiles(repositoryRoot)).sort(), ['.gitignore', 'new ü.txt']);
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { createIgnoreFilter, findLastMatchingRule, globToRegExpSource, parseIgnoreFile } from '../ignoreRules';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+const fixtureUri = (...segments: string[]) => vscode.Uri.joinPath(workspaceRoot, ...segments);
+
+/**
+ * The source of the rule deciding the path, or undefined if it is copied.
+ */
+function excludedBy(content: string, relativePath: string, isDirectory = false): string | undefined {
+    const match = findLastMatchingRule(parseIgnoreFile(content, '.gitignore'), relativePath, isDirectory);
+    return match && !match.negate ? match.source : undefined;
+}
+
+suite('Ignore Rules Test Suite', () => {
+    test('globToRegExpSource translates wildcards, globstars, classes and braces', () => {
+        const matches = (glob: string, relativePath: string, allowBraces = false) => new RegExp(`^${globToRegExpSource(glob, allowBraces)}$`).test(relativePath);
+        assert.strictEqual(matches('*.js', 'app.js'), true);
+        assert.strictEqual(matches('*.js', 'src/app.js'), false);
+        assert.strictEqual(matches('**/*.js', 'src/deep/app.js'), true);
+        assert.strictEqual(matches('**/*.js', 'app.js'), true);
+        assert.strictEqual(matches('src/**', 'src/a/b'), true);
+        assert.strictEqual(matches('file?.txt', 'file1.txt'), true);
+        assert.strictEqual(matches('[!a]b', 'ab'), false);
+        assert.strictEqual(matches('[!a]b', 'cb'), true);
+        assert.strictEqual(matches('*.{ts,js}', 'app.ts', true), true);
+        assert.strictEqual(matches('*.{ts,js}', 'app.{ts,js}'), true);
+    });
+
+    test('parseIgnoreFile skips comments and blank lines and labels rules with their line', () => {
+        const rules = parseIgnoreFile('# build output\n\ndist/\n\\#notes\n', '.gitignore');
+        assert.deepStrictEqual(rules.map(rule => rule.source), ['.gitignore:3 (dist/)', '.gitignore:4 (\\#notes)']);
+        assert.strictEqual(rules[0].dirOnly, true);
+        assert.strictEqual(excludedBy('\\#notes', '#notes'), '.gitignore:1 (\\#notes)');
+    });
+
+    test('Unanchored patterns match at any depth, anchored ones from the ignore file folder', () => {
+        assert.strictEqual(excludedBy('*.log', 'logs/deep/app.log'), '.gitignore:1 (*.log)');
+        assert.strictEqual(excludedBy('/build', 'build', true), '.gitignore:1 (/build)');
+        assert.strictEqual(excludedBy('/build', 'src/build', true), undefined);
+        assert.strictEqual(excludedBy('docs/*.md', 'docs/a.md'), '.gitignore:1 (docs/*.md)');
+        assert.strictEqual(excludedBy('docs/*.md', 'src/docs/a.md'), undefined);
+    });
+
+    test('Directory-only patterns skip files of the same name', () => {
+        assert.strictEqual(excludedBy('out/', 'out', true), '.gitignore:1 (out/)');
+        assert.strictEqual(excludedBy('out/', 'out', false), undefined);
+    });
+
+    test('Later negations re-include, and later patterns exclude again', () => {
+        assert.strictEqual(excludedBy('*.env\n!example.env', 'example.env'), undefined);
+        assert.strictEqual(excludedBy('*.env\n!example.env', 'prod.env'), '.gitignore:1 (*.env)');
+        assert.strictEqual(excludedBy('*.env\n!example.env\nexample.env', 'example.env'), '.gitignore:3 (example.env)');
+        assert.strictEqual(excludedBy('\\!important', '!important'), '.gitignore:1 (\\!important)');
+    });
+
+    test('The filter applies nested .llmcopierignore files to the folder contents', async () => {
+        const ignoreFilter = createIgnoreFilter();
+        assert.strictEqual(await ignoreFilter.getExcludingRule(fixtureUri('src', 'generated'), true), 'src/.llmcopierignore:1 (generated/)');
+        assert.strictEqual(await ignoreFilter.getExcludingRule(fixtureUri('src', 'generated', 'output.js'), false), 'src/.llmcopierignore:1 (generated/)');
+        assert.strictEqual(await ignoreFilter.getExcludingRule(fixtureUri('src', 'app.js'), false), undefined);
+    });
+
+    test('Names starting with two dots are inside the workspace folder, so the rules apply to them', async () => {
+        await vscode.workspace.getConfiguration('llmCopier').update('excludePatterns', ['*.md'], vscode.ConfigurationTarget.Global);
+        try {
+            assert.strictEqual(await createIgnoreFilter().getExcludingRule(fixtureUri('..notes.md'), false), 'llmCopier.excludePatterns:1 (*.md)');
+        } finally {
+            await vscode.workspace.getConfiguration('llmCopier').update('excludePatterns', undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('An explicitly selected ignored folder keeps its contents', async () => {
+        const ignoreFilter = createIgnoreFilter();
+        ignoreFilter.includeSelectedFolder(fixtureUri('src', 'generated'));
+        assert.strictEqual(await ignoreFilter.getExcludingRule(fixtureUri('src', 'generated', 'output.js'), false), undefined);
+    });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getWorkspaceRootForUri } from '../../fileUtils';
+
+// Runs in src/test/fixtures/multi-root/multi-root.code-workspace, whose folders "app" and "app2" share a name prefix
+const [appFolder, app2Folder] = vscode.workspace.workspaceFolders!;
+
+suite('Multi-root Workspace Test Suite', () => {
+    test('Resolves files to their own workspace folder, not a folder with a shorter common prefix', () => {
+        assert.strictEqual(getWorkspaceRootForUri(vscode.Uri.joinPath(app2Folder.uri, 'src', 'index.js'))?.toString(), app2Folder.uri.toString());
+        assert.strictEqual(getWorkspaceRootForUri(vscode.Uri.joinPath(appFolder.uri, 'src', 'index.js'))?.toString(), appFolder.uri.toString());
+    });
+
+    test('Copy File Name And Content prefixes paths with the workspace folder name across roots', async () => {
+        const appIndex = vscode.Uri.joinPath(appFolder.uri, 'src', 'index.js');
+        const app2Index = vscode.Uri.joinPath(app2Folder.uri, 'src', 'index.js');
+        await vscode.env.clipboard.writeText('');
+        await vscode.commands.executeCommand('llmCopier.copyFileNamesAndContent', appIndex, [appIndex, app2Index]);
+        assert.strictEqual(await vscode.env.clipboard.readText(),
+            `#### FILE: ${path.join('app', 'src', 'index.js')}\n\`\`\`javascript\nmodule.exports = 'app';\n\n\`\`\`\n\n`
+            + `#### FILE: ${path.join('app2', 'src', 'index.js')}\n\`\`\`javascript\nmodule.exports = 'app2';\n\n\`\`\`\n\n`);
+    });
+
+    test('Copy Problems With Context prefixes the paths in the problems list with the workspace folder name across roots', async () => {
+        const appIndex = vscode.Uri.joinPath(appFolder.uri, 'src', 'index.js');
+        const app2Index = vscode.Uri.joinPath(app2Folder.uri, 'src', 'index.js');
+        const diagnostics = vscode.languages.createDiagnosticCollection('llmCopierMultiRootTest');
+        diagnostics.set(appIndex, [new vscode.Diagnostic(new vscode.Range(0, 0, 0, 6), 'First', vscode.DiagnosticSeverity.Error)]);
+        diagnostics.set(app2Index, [new vscode.Diagnostic(new vscode.Range(0, 0, 0, 6), 'Second', vscode.DiagnosticSeverity.Error)]);
+        try {
+            await vscode.env.clipboard.writeText('');
+            await vscode.commands.executeCommand('llmCopier.copyProblemsWithContext', appIndex, [appIndex, app2Index]);
+            const appPath = path.join('app', 'src', 'index.js');
+            const app2Path = path.join('app2', 'src', 'index.js');
+            assert.ok((await vscode.env.clipboard.readText()).startsWith(
+                `#### FILE: problems (2 in 2 files)\n\`\`\`\n${appPath}:1:1 error: First\n${app2Path}:1:1 error: Second\n\`\`\`\n\n`
+                + `#### FILE: ${appPath}:1-2 (error at 1:1)\n`));
+        } finally {
+            diagnostics.dispose();
+        }
+    });
+});
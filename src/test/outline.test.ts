@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ContentEntry } from '../outputFormats';
+import { compressEntries, createOutline } from '../outline';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+
+/** Not open in an editor, so the outline comes from the heuristic. */
+const closedUri = (fileName: string) => vscode.Uri.joinPath(workspaceRoot, 'outline', fileName);
+
+const TS_SOURCE = [
+    'import { a } from "./a";',
+    '',
+    '/** Adds. */',
+    'export function add(a: number, b: number): number {',
+    '    const sum = a + b;',
+    '    return sum;',
+    '}',
+    '',
+    'class Box {',
+    '    private value = 1;',
+    '    get(): number {',
+    '        if (this.value) {',
+    '            return this.value;',
+    '        }',
+    '        return 0;',
+    '    }',
+    '}',
+    '',
+].join('\n');
+
+suite('Outline Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+
+    teardown(async () => {
+        await config().update('compressionMode', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('Elides brace bodies and keeps imports, doc comments, signatures and fields', async () => {
+        assert.strictEqual(await createOutline(closedUri('box.ts'), TS_SOURCE, 'typescript'), [
+            'import { a } from "./a";',
+            '',
+            '/** Adds. */',
+            'export function add(a: number, b: number): number {',
+            '    /* ... */',
+            '}',
+            '',
+            'class Box {',
+            '    private value = 1;',
+            '    get(): number {',
+            '        /* ... */',
+            '    }',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    test('Keeps control statements and elides arrow functions and Go result types', async () => {
+        assert.strictEqual(
+            await createOutline(closedUri('f.js'), 'const f = () => {\n  return 1;\n};\nif (x) {\n  y();\n}\n', 'javascript'),
+            'const f = () => {\n  /* ... */\n};\nif (x) {\n  y();\n}\n'
+        );
+        assert.strictEqual(
+            await createOutline(closedUri('server.go'), 'func (s *Server) Start() (int, error) {\n\treturn 0, nil\n}\n\nfunc Name() string {\n\treturn "x"\n}\n', 'go'),
+            'func (s *Server) Start() (int, error) {\n\t/* ... */\n}\n\nfunc Name() string {\n\t/* ... */\n}\n'
+        );
+    });
+
+    test('Elides Python bodies after multi-line signatures and keeps docstrings', async () => {
+        const source = 'def greet(name):\n    """Says hello."""\n    message = f"hi {name}"\n    return message\n\n\nclass A:\n    async def run(self,\n            x):\n        return x\n';
+        assert.strictEqual(
+            await createOutline(closedUri('greet.py'), source, 'python'),
+            'def greet(name):\n    """Says hello."""\n    ...\n\n\nclass A:\n    async def run(self,\n            x):\n        ...\n'
+        );
+    });
+
+    test('Returns nothing for unsupported languages or when nothing can be elided', async () => {
+        assert.strictEqual(await createOutline(closedUri('notes.md'), '# Title\n', 'markdown'), undefined);
+        assert.strictEqual(await createOutline(closedUri('x.py'), 'x = 1\n', 'python'), undefined);
+    });
+
+    test('compressEntries outlines whole files not marked fullContent, and keeps the given files in full in hybrid mode', async () => {
+        const wholeFile: ContentEntry = { path: 'box.ts', language: 'typescript', content: TS_SOURCE, uri: closedUri('box.ts') };
+        const selection: ContentEntry = { ...wholeFile, path: 'box.ts:1-18', partial: true };
+        const keptFile: ContentEntry = { ...wholeFile, path: 'kept.ts', uri: closedUri('kept.ts') };
+
+        assert.deepStrictEqual(await compressEntries([wholeFile, selection]), [wholeFile, selection]);
+
+        await config().update('compressionMode', 'outline', vscode.ConfigurationTarget.Global);
+        const fullFile: ContentEntry = { ...wholeFile, fullContent: true };
+        const [outlined, keptSelection, keptFullFile] = await compressEntries([wholeFile, selection, fullFile]);
+        assert.strictEqual(outlined.path, 'box.ts (outline)');
+        assert.ok(outlined.content.includes('/* ... */'));
+        assert.strictEqual(keptSelection, selection);
+        assert.strictEqual(keptFullFile, fullFile);
+
+        await config().update('compressionMode', 'hybrid', vscode.ConfigurationTarget.Global);
+        const hybrid = await compressEntries([wholeFile, keptFile], [keptFile.uri!]);
+        assert.deepStrictEqual(hybrid.map(entry => entry.path), ['box.ts (outline)', 'kept.ts']);
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ContentEntry, formatEntries, getCodeFence, getOutputFormat, registerOutputFormat } from '../outputFormats';
+import { parseFileBlocks } from '../responseApplier';
+
+const entries: ContentEntry[] = [
+    { path: 'src/a.ts', language: 'typescript', content: 'const a = "<a>";' },
+    { path: 'src/b.py', language: 'python', content: 'b = 1\nc = 2', note: 'imported by src/a.ts as "./b"' },
+];
+
+suite('Output Formats Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+
+    teardown(async () => {
+        await config().update('outputTemplate', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('Markdown puts each file under a heading with its note after the block', () => {
+        assert.strictEqual(formatEntries(entries, getOutputFormat('markdown')),
+            '#### FILE: src/a.ts\n```typescript\nconst a = "<a>";\n```\n\n'
+            + '#### FILE: src/b.py\n```python\nb = 1\nc = 2\n```\n_imported by src/a.ts as "./b"_\n\n');
+    });
+
+    test('Code fences are longer than any backtick run, so Markdown output parses back unchanged', () => {
+        assert.strictEqual(getCodeFence('no backticks'), '```');
+        assert.strictEqual(getCodeFence('inline `code` and ``more``'), '```');
+        assert.strictEqual(getCodeFence('```ts\nx\n```'), '````');
+        assert.strictEqual(getCodeFence('`````'), '``````');
+
+        const content = 'Example:\n````md\n```ts\nx\n```\n````';
+        const text = formatEntries([{ path: 'README.md', language: 'markdown', content }], getOutputFormat('markdown'));
+        assert.deepStrictEqual(parseFileBlocks(text).changes, [{ path: 'README.md', newContent: content }]);
+    });
+
+    test('XML escapes the attributes and wraps the content in CDATA', () => {
+        assert.strictEqual(formatEntries(entries, getOutputFormat('xml')), '<documents>\n'
+            + '<document path="src/a.ts">\n<![CDATA[const a = "<a>";]]>\n</document>\n'
+            + '<document path="src/b.py" note="imported by src/a.ts as &quot;./b&quot;">\n<![CDATA[b = 1\nc = 2]]>\n</document>\n'
+            + '</documents>\n');
+    });
+
+    test('XML content cannot close its document or CDATA section early', () => {
+        const content = 'const xml = "</document></documents>";\nconst end = "]]>";';
+        assert.strictEqual(formatEntries([{ path: 'src/xml.ts', language: 'typescript', content }], getOutputFormat('xml')), '<documents>\n'
+            + '<document path="src/xml.ts">\n<![CDATA[const xml = "</document></documents>";\nconst end = "]]]]><![CDATA[>";]]>\n</document>\n'
+            + '</documents>\n');
+    });
+
+    test('JSON is a parseable array of the entries', () => {
+        assert.deepStrictEqual(JSON.parse(formatEntries(entries, getOutputFormat('json'))), [
+            { path: 'src/a.ts', language: 'typescript', content: 'const a = "<a>";' },
+            { path: 'src/b.py', note: 'imported by src/a.ts as "./b"', language: 'python', content: 'b = 1\nc = 2' },
+        ]);
+    });
+
+    test('The template format fills the placeholders once and keeps unknown ones', async () => {
+        await config().update('outputTemplate', '{fileName} ({lineCount} lines, {language}) {unknown}{note}\n{content}\n', vscode.ConfigurationTarget.Global);
+        assert.strictEqual(formatEntries([...entries, { path: 'c.txt', language: '', content: '{path}' }], getOutputFormat('template')),
+            'a.ts (1 lines, typescript) {unknown}\nconst a = "<a>";\n'
+            + 'b.py (2 lines, python) {unknown}imported by src/a.ts as "./b"\nb = 1\nc = 2\n'
+            + 'c.txt (1 lines, ) {unknown}\n{path}\n');
+    });
+
+    test('Falls back to Markdown for unknown formats and an empty template, and returns nothing without entries', async () => {
+        assert.strictEqual(getOutputFormat('yaml').id, 'markdown');
+        await config().update('outputTemplate', '', vscode.ConfigurationTarget.Global);
+        assert.strictEqual(getOutputFormat('template').id, 'markdown');
+        assert.strictEqual(formatEntries([], getOutputFormat('xml')), '');
+    });
+
+    test('Registered formats can be selected until they are disposed', () => {
+        const registration = registerOutputFormat({ id: 'paths', separator: ', ', footer: '\n', formatEntry: entry => entry.path });
+        try {
+            assert.strictEqual(formatEntries(entries, getOutputFormat('paths')), 'src/a.ts, src/b.py\n');
+        } finally {
+            registration.dispose();
+        }
+        assert.strictEqual(getOutputFormat('paths').id, 'markdown');
+    });
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContentEntry } from '../outputFormats';
+import { expandPromptTemplate, getPromptContent, getPromptFileContent, listPromptTemplates } from '../prompts';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+
+suite('Prompt File Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+    let tempDir: string;
+    let globalPromptPath: string;
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-prompt-'));
+        globalPromptPath = path.join(tempDir, 'global-prompt.txt');
+        await fs.promises.writeFile(globalPromptPath, 'Global prompt.');
+    });
+
+    teardown(async () => {
+        await config().update('globalPromptFilePath', undefined, vscode.ConfigurationTarget.Global);
+        await config().update('includePromptFile', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('Reads prompt.txt of the workspace folder', async () => {
+        assert.strictEqual(await getPromptFileContent(workspaceRoot), 'Review the following code.\n\n');
+    });
+
+    test('Falls back to llmCopier.globalPromptFilePath without a project prompt.txt', async () => {
+        await config().update('globalPromptFilePath', globalPromptPath, vscode.ConfigurationTarget.Global);
+        assert.strictEqual(await getPromptFileContent(vscode.Uri.file(tempDir)), 'Global prompt.\n\n');
+    });
+
+    test('Prefers the project prompt.txt over the global one', async () => {
+        await config().update('globalPromptFilePath', globalPromptPath, vscode.ConfigurationTarget.Global);
+        assert.strictEqual(await getPromptFileContent(workspaceRoot), 'Review the following code.\n\n');
+    });
+
+    test('Returns nothing when llmCopier.includePromptFile is disabled', async () => {
+        await config().update('includePromptFile', false, vscode.ConfigurationTarget.Global);
+        assert.strictEqual(await getPromptFileContent(workspaceRoot), '');
+    });
+});
+
+suite('Prompt Template Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+    const entries: ContentEntry[] = [
+        { path: path.join('src', 'app.js'), language: 'javascript', content: '', uri: vscode.Uri.joinPath(workspaceRoot, 'src', 'app.js') },
+        { path: path.join('src', 'notes.md'), language: 'markdown', content: '' },
+        { path: 'data.txt', language: '', content: '' },
+    ];
+    let tempDir: string;
+    let projectFolder: string;
+    let globalPromptsDirectory: string;
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'llm-copier-templates-'));
+        projectFolder = path.join(tempDir, 'project');
+        globalPromptsDirectory = path.join(tempDir, 'global');
+        await fs.promises.mkdir(path.join(projectFolder, '.llmcopier', 'prompts'), { recursive: true });
+        await fs.promises.mkdir(globalPromptsDirectory);
+        await fs.promises.writeFile(path.join(projectFolder, '.llmcopier', 'prompts', 'review.md'), 'Project review.');
+        await fs.promises.writeFile(path.join(globalPromptsDirectory, 'review.txt'), 'Global review.');
+        await fs.promises.writeFile(path.join(globalPromptsDirectory, 'explain.prompt'), 'Explain {{files}}\n\n{{content}}\nin {{language}}.');
+        await fs.promises.writeFile(path.join(globalPromptsDirectory, 'settings.json'), '{}');
+    });
+
+    teardown(async () => {
+        await config().update('globalPromptsDirectory', undefined, vscode.ConfigurationTarget.Global);
+        await config().update('promptTemplate', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('Lists project and global templates, with project templates shadowing global ones', async () => {
+        await config().update('globalPromptsDirectory', globalPromptsDirectory, vscode.ConfigurationTarget.Global);
+        const templates = await listPromptTemplates(vscode.Uri.file(projectFolder));
+        assert.deepStrictEqual(templates.map(template => [template.name, template.source, path.basename(template.uri.fsPath)]), [
+            ['review', 'project', 'review.md'],
+            ['explain', 'global', 'explain.prompt'],
+        ]);
+    });
+
+    test('Expands the variables once, splits at {{content}} and keeps unknown placeholders', async () => {
+        assert.deepStrictEqual(await expandPromptTemplate('Check {{files}} ({{ language }}) {{unknown}}\n{{content}}\nAgain: {{language}}', entries), {
+            prompt: `Check - ${path.join('src', 'app.js')}\n- ${path.join('src', 'notes.md')}\n- data.txt (javascript, markdown) {{unknown}}\n`,
+            epilogue: '\nAgain: javascript, markdown',
+        });
+        assert.deepStrictEqual(await expandPromptTemplate('Explain.', entries), { prompt: 'Explain.\n\n', epilogue: '' });
+    });
+
+    test('Asks once per {{input}} placeholder and cancels with the input box', async () => {
+        const window = vscode.window as unknown as Record<string, unknown>;
+        const showInputBox = window.showInputBox;
+        const prompts: string[] = [];
+        const answers = ['Why?', undefined];
+        window.showInputBox = async (options: vscode.InputBoxOptions) => {
+            prompts.push(options.prompt!);
+            return answers.shift();
+        };
+        try {
+            assert.deepStrictEqual(await expandPromptTemplate('{{input:Question}} {{input:Question}}', entries), { prompt: 'Why? Why?\n\n', epilogue: '' });
+            assert.strictEqual(await expandPromptTemplate('{{input}}', entries), undefined);
+            assert.deepStrictEqual(prompts, ['Question', 'Text for the prompt template']);
+        } finally {
+            window.showInputBox = showInputBox;
+        }
+    });
+
+    test('getPromptContent uses llmCopier.promptTemplate and falls back to prompt.txt when it is missing', async () => {
+        await config().update('globalPromptsDirectory', globalPromptsDirectory, vscode.ConfigurationTarget.Global);
+        await config().update('promptTemplate', 'explain', vscode.ConfigurationTarget.Global);
+        assert.deepStrictEqual(await getPromptContent(entries.slice(0, 1)), { prompt: `Explain - ${path.join('src', 'app.js')}\n\n`, epilogue: '\nin javascript.' });
+
+        await config().update('promptTemplate', 'missing', vscode.ConfigurationTarget.Global);
+        assert.deepStrictEqual(await getPromptContent(entries.slice(0, 1)), { prompt: 'Review the following code.\n\n', epilogue: '' });
+    });
+});
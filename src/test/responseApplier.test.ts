@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { applyHunks, parseFileBlocks, parseUnifiedDiff, resolveResponsePath } from '../responseApplier';
+
+const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+
+suite('Response Applier Test Suite', () => {
+    test('parseFileBlocks extracts file blocks and keeps the text around them', () => {
+        const response = 'Here is the fix:\n#### FILE: src/app.js\n```javascript\nconsole.log(1);\n```\nDone.';
+        assert.deepStrictEqual(parseFileBlocks(response), {
+            changes: [{ path: 'src/app.js', newContent: 'console.log(1);' }],
+            remainder: 'Here is the fix:\nDone.',
+        });
+    });
+
+    test('parseFileBlocks keeps shorter backtick runs inside longer fences', () => {
+        const response = '#### FILE: `README.md`\n````markdown\n```js\nx\n```\n````\n';
+        assert.deepStrictEqual(parseFileBlocks(response).changes, [{ path: 'README.md', newContent: '```js\nx\n```' }]);
+    });
+
+    test('parseFileBlocks reads diff blocks as hunks for the heading path', () => {
+        const response = '#### FILE: src/util.js\n```diff\n@@ -1,1 +1,1 @@\n-a\n+b\n```\n';
+        assert.deepStrictEqual(parseFileBlocks(response).changes, [{ path: 'src/util.js', hunks: [{ oldStart: 1, lines: ['-a', '+b'] }] }]);
+    });
+
+    test('parseUnifiedDiff parses several files and strips the a/ and b/ prefixes', () => {
+        const diff = [
+            'diff --git a/one.txt b/one.txt',
+            '--- a/one.txt',
+            '+++ b/one.txt',
+            '@@ -1,2 +1,2 @@',
+            ' keep',
+            '-old',
+            '+new',
+            '--- /dev/null',
+            '+++ b/two.txt',
+            '@@ -0,0 +1 @@',
+            '+created',
+        ].join('\n');
+        assert.deepStrictEqual(parseUnifiedDiff(diff), [
+            { path: 'one.txt', hunks: [{ oldStart: 1, lines: [' keep', '-old', '+new'] }] },
+            { path: 'two.txt', hunks: [{ oldStart: 0, lines: ['+created'] }] },
+        ]);
+    });
+
+    test('parseUnifiedDiff marks diffs to /dev/null as deletions', () => {
+        assert.deepStrictEqual(parseUnifiedDiff('--- a/old.txt\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-gone'), [
+            { path: 'old.txt', hunks: [{ oldStart: 1, lines: ['-gone'] }], deleted: true },
+        ]);
+    });
+
+    test('applyHunks applies hunks at their stated lines and keeps the line breaks', () => {
+        const hunks = parseUnifiedDiff('--- a/x\n+++ b/x\n@@ -2,1 +2,1 @@\n-b\n+B\n@@ -4,1 +4,2 @@\n d\n+e\n')[0].hunks!;
+        assert.strictEqual(applyHunks('a\r\nb\r\nc\r\nd', hunks), 'a\r\nB\r\nc\r\nd\r\ne');
+    });
+
+    test('applyHunks finds hunks whose line numbers are off', () => {
+        const hunks = parseUnifiedDiff('@@ -1,2 +1,2 @@\n c\n-d\n+D\n')[0].hunks!;
+        assert.strictEqual(applyHunks('a\nb\nc\nd\n', hunks), 'a\nb\nc\nD\n');
+    });
+
+    test('applyHunks rejects hunks that do not match', () => {
+        const hunks = parseUnifiedDiff('@@ -1,1 +1,1 @@\n-missing\n+x\n')[0].hunks!;
+        assert.throws(() => applyHunks('a\nb\n', hunks), /hunk at line 1 does not match the current content/);
+    });
+
+    test('resolveResponsePath resolves relative paths inside the workspace', async () => {
+        assert.strictEqual((await resolveResponsePath('src/app.js'))?.fsPath, path.join(workspaceRoot.fsPath, 'src', 'app.js'));
+        assert.strictEqual((await resolveResponsePath('src/new-file.js'))?.fsPath, path.join(workspaceRoot.fsPath, 'src', 'new-file.js'));
+    });
+
+    test('resolveResponsePath rejects absolute paths and paths leaving the workspace', async () => {
+        assert.strictEqual(await resolveResponsePath(path.join(workspaceRoot.fsPath, 'src', 'app.js')), undefined);
+        assert.strictEqual(await resolveResponsePath('/etc/passwd'), undefined);
+        assert.strictEqual(await resolveResponsePath('../../.bashrc'), undefined);
+        // Exists, but outside the workspace folder
+        assert.strictEqual(await resolveResponsePath('../multi-root/app/src/index.js'), undefined);
+        assert.strictEqual(await resolveResponsePath('src/../../outside.txt'), undefined);
+    });
+});
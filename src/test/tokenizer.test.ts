@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { renderPayload } from '../clipboardWriter';
+import { ContentEntry } from '../outputFormats';
+import { formatTokenCount, getTokenizer, registerTokenizer } from '../tokenizer';
+
+suite('Token Budget Test Suite', () => {
+    const config = () => vscode.workspace.getConfiguration('llmCopier');
+
+    teardown(async () => {
+        await config().update('tokenizer', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('The approximate tokenizer counts words, long words, digits, CJK and newlines', () => {
+        const tokenizer = getTokenizer();
+        assert.strictEqual(tokenizer.id, 'approximate');
+        assert.strictEqual(tokenizer.countTokens('hello world'), 2);
+        assert.strictEqual(tokenizer.countTokens('internationalization'), 5);
+        assert.strictEqual(tokenizer.countTokens('12345678'), 3);
+        assert.strictEqual(tokenizer.countTokens('漢字'), 2);
+        assert.strictEqual(tokenizer.countTokens('a\n\n\nb'), 5);
+    });
+
+    test('Uses the tokenizer selected by llmCopier.tokenizer and falls back to four characters per token', async () => {
+        const words = registerTokenizer({ id: 'words', countTokens: text => text.split(/\s+/).filter(Boolean).length });
+        try {
+            await config().update('tokenizer', 'words', vscode.ConfigurationTarget.Global);
+            assert.strictEqual(getTokenizer().countTokens('one two three'), 3);
+        } finally {
+            words.dispose();
+        }
+        assert.strictEqual(getTokenizer().id, 'chars');
+        assert.strictEqual(getTokenizer().countTokens('one two three'), 4);
+    });
+
+    test('Formats token counts compactly', () => {
+        assert.deepStrictEqual([950, 1000, 12345, 1250000].map(formatTokenCount), ['950', '1k', '12.3k', '1.25M']);
+    });
+
+    test('renderPayload drops the largest entries until the content fits llmCopier.maxTokens', async () => {
+        await config().update('tokenizer', 'chars', vscode.ConfigurationTarget.Global);
+        const small: ContentEntry = { path: 'small.txt', language: '', content: 'x' };
+        const large: ContentEntry = { path: 'large.txt', language: '', content: 'y'.repeat(400) };
+        const payload = { prompt: 'Prompt\n\n', header: async (entries: ContentEntry[]) => `Files: ${entries.map(entry => entry.path).join(', ')}\n\n`, entries: [large, small] };
+
+        const unlimited = await renderPayload(payload, { maxTokens: 0 });
+        assert.deepStrictEqual(unlimited.droppedEntries, []);
+        assert.strictEqual(unlimited.tokenCount, Math.ceil(unlimited.text.length / 4));
+
+        const rendered = await renderPayload(payload, { maxTokens: 50 });
+        assert.deepStrictEqual(rendered.droppedEntries.map(entry => entry.path), ['large.txt']);
+        assert.strictEqual(rendered.text, 'Prompt\n\nFiles: small.txt\n\n#### FILE: small.txt\n```\nx\n```\n\n');
+        assert.ok(rendered.tokenCount <= 50, `${rendered.tokenCount}`);
+    });
+});
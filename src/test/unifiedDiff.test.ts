@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { createUnifiedDiff } from '../unifiedDiff';
+
+suite('Unified Diff Test Suite', () => {
+    test('Returns an empty string for equal texts', () => {
+        assert.strictEqual(createUnifiedDiff('a/x', 'b/x', 'a\nb\n', 'a\nb\n'), '');
+    });
+
+    test('Shows a changed line with its context', () => {
+        assert.strictEqual(
+            createUnifiedDiff('a/x', 'b/x', 'a\nb\nc\n', 'a\nB\nc\n'),
+            '--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'
+        );
+    });
+
+    test('Splits distant changes into hunks', () => {
+        const oldText = 'l1\nl2\nl3\nl4\nl5\nl6\nl7\nl8\nl9\nl10\n';
+        const newText = 'L1\nl2\nl3\nl4\nl5\nl6\nl7\nl8\nl9\nL10\n';
+        assert.strictEqual(
+            createUnifiedDiff('a/x', 'b/x', oldText, newText, 1),
+            '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n-l1\n+L1\n l2\n@@ -9,2 +9,2 @@\n l9\n-l10\n+L10\n'
+        );
+    });
+
+    test('Marks a missing line break at the end of the file', () => {
+        assert.strictEqual(
+            createUnifiedDiff('a/x', 'b/x', 'a\n', 'a\nb'),
+            '--- a/x\n+++ b/x\n@@ -1,1 +1,2 @@\n a\n+b\n\\ No newline at end of file\n'
+        );
+    });
+
+    test('Numbers a new file from line 0 on the old side', () => {
+        assert.strictEqual(createUnifiedDiff('/dev/null', 'b/x', '', 'a\n'), '--- /dev/null\n+++ b/x\n@@ -0,0 +1,1 @@\n+a\n');
+    });
+});
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+
+/**
+ * Estimates how many tokens a language model will see for a piece of text.
+ */
+export interface Tokenizer {
+    /** Identifier used by the 'llmCopier.tokenizer' setting. */
+    id: string;
+    countTokens(text: string): number;
+}
+
+/**
+ * Splits text the way GPT-style BPE tokenizers pre-tokenize it:
+ * contractions, letter runs (with an optional leading space), digit runs, punctuation runs and whitespace.
+ */
+const PRE_TOKEN_PATTERN = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/**
+ * A local approximation of a BPE tokenizer. Common short words are a single token, longer words
+ * are split into ~4 character pieces, digits are grouped by three, and CJK characters count individually.
+ */
+const approximateBpeTokenizer: Tokenizer = {
+    id: 'approximate',
+    countTokens(text: string): number {
+        let count = 0;
+        for (const match of text.matchAll(PRE_TOKEN_PATTERN)) {
+            const piece = match[0];
+            const trimmed = piece.trimStart();
+
+            if (!trimmed) {
+                // Whitespace runs are mostly merged; newlines tend to stay separate
+                count += Math.max(1, (piece.match(/\n/g) ?? []).length);
+            } else if (/^\p{N}+$/u.test(trimmed)) {
+                count += Math.ceil(trimmed.length / 3);
+            } else if (/\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul}/u.test(trimmed)) {
+                count += [...trimmed].length;
+            } else if (/^\p{L}+$/u.test(trimmed)) {
+                count += trimmed.length <= 6 ? 1 : Math.ceil(trimmed.length / 4);
+            } else {
+                // Punctuation and operators merge less eagerly than letters
+                count += Math.ceil(trimmed.length / 2);
+            }
+        }
+        return count;
+    }
+};
+
+/**
+ * The classic "four characters per token" rule of thumb.
+ */
+const charsPerTokenTokenizer: Tokenizer = {
+    id: 'chars',
+    countTokens(text: string): number {
+        return Math.ceil(text.length / 4);
+    }
+};
+
+const tokenizers = new Map<string, Tokenizer>([
+    [approximateBpeTokenizer.id, approximateBpeTokenizer],
+    [charsPerTokenTokenizer.id, charsPerTokenTokenizer],
+]);
+
+/**
+ * Registers an additional tokenizer, selectable through the 'llmCopier.tokenizer' setting.
+ * @param tokenizer The tokenizer to register. An existing tokenizer with the same id is replaced.
+ * @returns A disposable that unregisters the tokenizer.
+ */
+export function registerTokenizer(tokenizer: Tokenizer): vscode.Disposable {
+    tokenizers.set(tokenizer.id, tokenizer);
+    return new vscode.Disposable(() => {
+        if (tokenizers.get(tokenizer.id) === tokenizer) {
+            tokenizers.delete(tokenizer.id);
+        }
+    });
+}
+
+/**
+ * Returns the tokenizer selected by 'llmCopier.tokenizer', falling back to the chars/4 estimate
+ * if the configured tokenizer is unknown.
+ */
+export function getTokenizer(): Tokenizer {
+    const id = vscode.workspace.getConfiguration('llmCopier').get<string>('tokenizer', approximateBpeTokenizer.id);
+    return tokenizers.get(id) ?? charsPerTokenTokenizer;
+}
+
+/**
+ * Formats a token count compactly, e.g. 950 -> "950", 12345 -> "12.3k".
+ */
+export function formatTokenCount(count: number): string {
+    if (count < 1000) {
+        return `${count}`;
+    }
+    if (count < 1000000) {
+        return `${(count / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+    }
+    return `${(count / 1000000).toFixed(2).replace(/\.?0+$/, '')}M`;
+}
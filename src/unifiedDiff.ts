@@ -0,0 +1,150 @@
+/**
+ * A line of an edit script: kept (" "), removed from the old text ("-") or added in the new text ("+").
+ */
+interface DiffLine {
+    type: ' ' | '-' | '+';
+    /** The line including its line break, if it has one. */
+    text: string;
+}
+
+/**
+ * Above this many changed lines the texts are diffed as one replaced block, which keeps time and memory bounded.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Computes a shortest edit script with Myers' algorithm, after trimming the common prefix and suffix.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    let prefixLength = 0;
+    while (prefixLength < oldLines.length && prefixLength < newLines.length && oldLines[prefixLength] === newLines[prefixLength]) {
+        prefixLength++;
+    }
+    let suffixLength = 0;
+    while (suffixLength < oldLines.length - prefixLength && suffixLength < newLines.length - prefixLength
+        && oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]) {
+        suffixLength++;
+    }
+    const a = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+    const b = newLines.slice(prefixLength, newLines.length - suffixLength);
+    const prefix = oldLines.slice(0, prefixLength).map(text => ({ type: ' ' as const, text }));
+    const suffix = oldLines.slice(oldLines.length - suffixLength).map(text => ({ type: ' ' as const, text }));
+
+    const replaced = [...a.map(text => ({ type: '-' as const, text })), ...b.map(text => ({ type: '+' as const, text }))];
+    if (a.length === 0 || b.length === 0) {
+        return [...prefix, ...replaced, ...suffix];
+    }
+
+    // v[offset + k] is the furthest x reached on diagonal k; trace[d] keeps diagonals -d..d after step d
+    const offset = a.length + b.length;
+    const v = new Int32Array(2 * offset + 2);
+    const trace: Int32Array[] = [];
+    let editDistance = -1;
+    for (let d = 0; d <= Math.min(offset, MAX_EDIT_DISTANCE) && editDistance < 0; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < a.length && y < b.length && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= a.length && y >= b.length) {
+                editDistance = d;
+                break;
+            }
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+    if (editDistance < 0) {
+        return [...prefix, ...replaced, ...suffix];
+    }
+
+    const script: DiffLine[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = editDistance; d > 0; d--) {
+        const previous = trace[d - 1];
+        const furthest = (diagonal: number) => previous[diagonal + d - 1];
+        const k = x - y;
+        const previousK = k === -d || (k !== d && furthest(k - 1) < furthest(k + 1)) ? k + 1 : k - 1;
+        const previousX = furthest(previousK);
+        const previousY = previousX - previousK;
+        while (x > previousX && y > previousY) {
+            script.push({ type: ' ', text: a[--x] });
+            y--;
+        }
+        if (x === previousX) {
+            script.push({ type: '+', text: b[--y] });
+        } else {
+            script.push({ type: '-', text: a[--x] });
+        }
+    }
+    while (x > 0 && y > 0) {
+        script.push({ type: ' ', text: a[--x] });
+        y--;
+    }
+    return [...prefix, ...script.reverse(), ...suffix];
+}
+
+function formatDiffLine(line: DiffLine): string {
+    return line.text.endsWith('\n') ? `${line.type}${line.text}` : `${line.type}${line.text}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Creates a unified diff between two texts, like `diff -u`.
+ * @param oldPath The path in the "---" header, e.g. "a/src/app.ts" or "/dev/null".
+ * @param newPath The path in the "+++" header.
+ * @param oldText The old content.
+ * @param newText The new content.
+ * @param contextLines Unchanged lines shown around each change.
+ * @returns The diff, ending with a line break, or an empty string if the texts are equal.
+ */
+export function createUnifiedDiff(oldPath: string, newPath: string, oldText: string, newText: string, contextLines = 3): string {
+    const script = diffLines(splitLines(oldText), splitLines(newText));
+    const changedIndexes = script.flatMap((line, index) => line.type === ' ' ? [] : [index]);
+    if (changedIndexes.length === 0) {
+        return '';
+    }
+
+    // Changes closer than twice the context share a hunk
+    const hunkRanges: { start: number; end: number }[] = [];
+    for (const index of changedIndexes) {
+        const last = hunkRanges[hunkRanges.length - 1];
+        if (last && index - last.end <= 2 * contextLines + 1) {
+            last.end = index;
+        } else {
+            hunkRanges.push({ start: index, end: index });
+        }
+    }
+
+    // Line numbers before each script line
+    const oldLineNumbers: number[] = [];
+    const newLineNumbers: number[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    for (const line of script) {
+        oldLineNumbers.push(oldLine);
+        newLineNumbers.push(newLine);
+        oldLine += line.type === '+' ? 0 : 1;
+        newLine += line.type === '-' ? 0 : 1;
+    }
+
+    let diff = `--- ${oldPath}\n+++ ${newPath}\n`;
+    for (const range of hunkRanges) {
+        const start = Math.max(0, range.start - contextLines);
+        const end = Math.min(script.length - 1, range.end + contextLines);
+        const lines = script.slice(start, end + 1);
+        const oldCount = lines.filter(line => line.type !== '+').length;
+        const newCount = lines.filter(line => line.type !== '-').length;
+        // An empty side is numbered after the line it follows, as in `diff -u`
+        const oldStart = oldCount > 0 ? oldLineNumbers[start] + 1 : oldLineNumbers[start];
+        const newStart = newCount > 0 ? newLineNumbers[start] + 1 : newLineNumbers[start];
+        diff += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n${lines.map(formatDiffLine).join('')}`;
+    }
+    return diff;
+}
@@ -181,6 +181,15 @@ window.addEventListener('message', event => {
         const ta = document.getElementById(message.currentTextareaId)
         ta.value = message.data;
         autoResizeHeight(ta);
+    } else if (message.command === 'models') {
+        const selectedModel = localStorage.getItem('selectedModel') || modelSelect.value;
+        modelSelect.innerHTML = '';
+        message.models.forEach(function (model) {
+            modelSelect.appendChild(createElement({ tag: 'option', attributes: { value: model }, text: model }));
+        });
+        if (message.models.includes(selectedModel)) {
+            modelSelect.value = selectedModel;
+        }
     } else {
         console.error("Invalid command received:", message);
     }